@@ -12,11 +12,39 @@ export class AppConfig {
   
   // JWT Configuration
   static readonly jwtSecret: string = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
-  static readonly jwtExpiresIn: string = process.env.JWT_EXPIRES_IN || '7d';
+  static readonly jwtExpiresIn: string = process.env.JWT_EXPIRES_IN || '15m';
+  static readonly refreshTokenTtlDays: number = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+  
+  // Key used to encrypt TOTP secrets at rest (defaults to a key derived from JWT_SECRET)
+  static readonly twoFactorEncryptionKey: string = process.env.TWO_FACTOR_ENCRYPTION_KEY || `2fa:${AppConfig.jwtSecret}`;
+  
+  // Authentication audit log (0 = keep forever)
+  static readonly authEventRetentionDays: number = parseInt(process.env.AUTH_EVENT_RETENTION_DAYS || '90', 10);
   
   // Rate Limiting
   static readonly basicTierDailyLimit: number = parseInt(process.env.BASIC_TIER_DAILY_LIMIT || '5', 10);
   static readonly proTierDailyLimit: number = parseInt(process.env.PRO_TIER_DAILY_LIMIT || '1000', 10);
+  static readonly basicTierDailyTokenLimit: number = parseInt(process.env.BASIC_TIER_DAILY_TOKEN_LIMIT || '0', 10);
+  static readonly proTierDailyTokenLimit: number = parseInt(process.env.PRO_TIER_DAILY_TOKEN_LIMIT || '0', 10);
+  
+  // AI Generation Limits per tier
+  static readonly basicTierModels: string[] = (process.env.BASIC_TIER_MODELS || 'gemini-1.5-flash').split(',').map(m => m.trim()).filter(Boolean);
+  static readonly proTierModels: string[] = (process.env.PRO_TIER_MODELS || 'gemini-1.5-flash,gemini-1.5-pro').split(',').map(m => m.trim()).filter(Boolean);
+  static readonly basicTierMaxOutputTokens: number = parseInt(process.env.BASIC_TIER_MAX_OUTPUT_TOKENS || '1024', 10);
+  static readonly proTierMaxOutputTokens: number = parseInt(process.env.PRO_TIER_MAX_OUTPUT_TOKENS || '8192', 10);
+  
+  // Conversation memory
+  static readonly contextTokenBudget: number = parseInt(process.env.CONTEXT_TOKEN_BUDGET || '4000', 10);
+  static readonly contextMaxMessages: number = parseInt(process.env.CONTEXT_MAX_MESSAGES || '200', 10);
+  static readonly summaryBatchSize: number = parseInt(process.env.SUMMARY_BATCH_SIZE || '50', 10);
+  
+  // Data exports
+  static readonly exportDir: string = process.env.EXPORT_DIR || 'exports';
+  static readonly exportRetentionHours: number = parseInt(process.env.EXPORT_RETENTION_HOURS || '24', 10);
+  
+  // Conversation imports
+  static readonly importDir: string = process.env.IMPORT_DIR || 'imports';
+  static readonly importMaxBytes: number = parseInt(process.env.IMPORT_MAX_BYTES || String(50 * 1024 * 1024), 10);
   
   // Cache Configuration
   static readonly cacheTtl: number = parseInt(process.env.CACHE_TTL || '300', 10);
@@ -26,20 +54,80 @@ export class AppConfig {
   static readonly logLevel: string = process.env.LOG_LEVEL || 'info';
   static readonly logFormat: string = process.env.LOG_FORMAT || 'combined';
   
+  // LLM Provider (gemini, openai, fixture)
+  static readonly llmProvider: string = process.env.LLM_PROVIDER || 'gemini';
+  
   // Google Gemini API
   static readonly geminiApiKey: string = process.env.GEMINI_API_KEY || '';
   
+  // OpenAI-compatible API
+  static readonly openaiApiKey: string = process.env.OPENAI_API_KEY || '';
+  static readonly openaiBaseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+  static readonly openaiModel: string = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  
+  // Token pricing overrides, JSON of model -> { prompt, response } in USD per million tokens
+  static readonly llmPricing: string = process.env.LLM_PRICING || '';
+  
+  // Fixture provider (offline development and tests)
+  static readonly llmFixturePath: string = process.env.LLM_FIXTURE_PATH || '';
+  
+  // OTP brute-force protection
+  static readonly otpMaxVerifyAttempts: number = parseInt(process.env.OTP_MAX_VERIFY_ATTEMPTS || '5', 10);
+  static readonly otpLockoutBaseSeconds: number = parseInt(process.env.OTP_LOCKOUT_BASE_SECONDS || '60', 10);
+  static readonly otpLockoutMaxSeconds: number = parseInt(process.env.OTP_LOCKOUT_MAX_SECONDS || '3600', 10);
+  
+  // SMS Provider (twilio, sink)
+  static readonly smsProvider: string = process.env.SMS_PROVIDER || 'sink';
+  static readonly smsSinkPath: string = process.env.SMS_SINK_PATH || '';
+  static readonly smsDefaultCountryCode: string = (process.env.SMS_DEFAULT_COUNTRY_CODE || '91').replace(/\D/g, '');
+  
+  // Twilio (or a Twilio-compatible gateway)
+  static readonly twilioAccountSid: string = process.env.TWILIO_ACCOUNT_SID || '';
+  static readonly twilioAuthToken: string = process.env.TWILIO_AUTH_TOKEN || '';
+  static readonly twilioFromNumber: string = process.env.TWILIO_FROM_NUMBER || '';
+  static readonly twilioBaseUrl: string = process.env.TWILIO_BASE_URL || 'https://api.twilio.com';
+  
+  // Email delivery over SMTP (defaults suit a local catcher such as Mailpit on port 1025)
+  static readonly emailFrom: string = process.env.EMAIL_FROM || 'Gemini Chatroom <no-reply@localhost>';
+  static readonly smtpHost: string = process.env.SMTP_HOST || 'localhost';
+  static readonly smtpPort: number = parseInt(process.env.SMTP_PORT || '1025', 10);
+  static readonly smtpSecure: boolean = process.env.SMTP_SECURE === 'true';
+  static readonly smtpUser: string = process.env.SMTP_USER || '';
+  static readonly smtpPassword: string = process.env.SMTP_PASSWORD || '';
+  
+  // Page that receives magic links and email verification links (?token=...)
+  static readonly emailLinkUrl: string = process.env.EMAIL_LINK_URL || `${AppConfig.frontendUrl}/auth/email`;
+  
   // Stripe Configuration
   static readonly stripeSecretKey: string = process.env.STRIPE_SECRET_KEY || '';
   static readonly stripePublishableKey: string = process.env.STRIPE_PUBLISHABLE_KEY || '';
   static readonly stripeWebhookSecret: string = process.env.STRIPE_WEBHOOK_SECRET || '';
   
+  // Billing page of the frontend, linked from billing emails
+  static readonly billingUrl: string = process.env.BILLING_URL || `${AppConfig.frontendUrl}/billing`;
+  
+  // Where Stripe Checkout and the Customer Portal send the customer back to
+  static readonly checkoutSuccessUrl: string = process.env.CHECKOUT_SUCCESS_URL || `${AppConfig.billingUrl}/success?session_id={CHECKOUT_SESSION_ID}`;
+  static readonly checkoutCancelUrl: string = process.env.CHECKOUT_CANCEL_URL || AppConfig.billingUrl;
+  static readonly billingPortalReturnUrl: string = process.env.BILLING_PORTAL_RETURN_URL || AppConfig.billingUrl;
+  
+  // Days a subscriber keeps the paid tier after a failed payment before being downgraded
+  static readonly paymentGracePeriodDays: number = parseInt(process.env.PAYMENT_GRACE_PERIOD_DAYS || '7', 10);
+  
+  // Free trial for first-time pro subscribers (0 = no trial)
+  static readonly proTrialDays: number = parseInt(process.env.PRO_TRIAL_DAYS || '7', 10);
+  
+  // Key for hashing mobile numbers that have had a trial (defaults to a key derived from JWT_SECRET)
+  static readonly trialHashKey: string = process.env.TRIAL_HASH_KEY || `trial:${AppConfig.jwtSecret}`;
+  
+  // Price of one pro message past the daily limit; keep in step with the Stripe overage price
+  static readonly proOverageUnitPriceUsd: number = parseFloat(process.env.PRO_OVERAGE_UNIT_PRICE_USD || '0.01');
+  
   // Validation
   static validate(): void {
     const requiredEnvVars = [
       'DATABASE_URL',
       'JWT_SECRET',
-      'GEMINI_API_KEY',
       'STRIPE_SECRET_KEY',
       'STRIPE_WEBHOOK_SECRET'
     ];
@@ -54,8 +142,17 @@ export class AppConfig {
       throw new Error('PORT must be between 1 and 65535');
     }
     
-    if (!this.geminiApiKey) {
-      throw new Error('GEMINI_API_KEY is required');
+    if (this.llmProvider === 'gemini' && !this.geminiApiKey) {
+      throw new Error('GEMINI_API_KEY is required when LLM_PROVIDER is gemini');
+    }
+    
+    // The sink only logs codes, so users could never sign in
+    if (this.isProduction && this.smsProvider === 'sink') {
+      throw new Error('SMS_PROVIDER must be set to a real provider (twilio) in production');
+    }
+    
+    if (this.smsProvider === 'twilio' && (!this.twilioAccountSid || !this.twilioAuthToken || !this.twilioFromNumber)) {
+      throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER are required when SMS_PROVIDER is twilio');
     }
     
     if (!this.stripeSecretKey.startsWith('sk_')) {
@@ -72,6 +72,11 @@ export class QueueConfig {
     EMAIL_NOTIFICATIONS: 'email-notifications',
     WEBHOOK_PROCESSING: 'webhook-processing',
     ANALYTICS_EVENTS: 'analytics-events',
+    CHATROOM_SUMMARIES: 'chatroom-summaries',
+    DATA_EXPORTS: 'data-exports',
+    DATA_IMPORTS: 'data-imports',
+    SMS_NOTIFICATIONS: 'sms-notifications',
+    SUBSCRIPTION_MAINTENANCE: 'subscription-maintenance',
   } as const;
 
   // Job types
@@ -79,7 +84,14 @@ export class QueueConfig {
     PROCESS_GEMINI_MESSAGE: 'process-gemini-message',
     SEND_EMAIL: 'send-email',
     PROCESS_WEBHOOK: 'process-webhook',
+    PROCESS_STRIPE_EVENT: 'process-stripe-event',
     TRACK_ANALYTICS: 'track-analytics',
+    SUMMARIZE_CHATROOM: 'summarize-chatroom',
+    EXPORT_ACCOUNT: 'export-account',
+    IMPORT_CONVERSATIONS: 'import-conversations',
+    SEND_SMS: 'send-sms',
+    EXPIRE_GRACE_PERIODS: 'expire-grace-periods',
+    REPORT_OVERAGE_USAGE: 'report-overage-usage',
   } as const;
 
   // Job priorities
@@ -0,0 +1,314 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { RoleService, USER_ROLES } from '../services/role.service';
+import { AdminService } from '../services/admin.service';
+import { AuthService } from '../services/auth.service';
+import { SubscriptionService } from '../services/subscription.service';
+import { AuditService, AuthEventType } from '../services/audit.service';
+import { WebhookEventService } from '../services/webhookEvent.service';
+import { Logger } from '../utils/logger';
+import { asyncHandler, AuthorizationError, ValidationError } from '../middleware/error.middleware';
+
+/**
+ * Record an action staff took on a user's account, under that user's history
+ */
+const recordAdminAction = (
+  req: Request,
+  userId: string,
+  type: AuthEventType,
+  metadata: Prisma.InputJsonObject = {}
+): Promise<void> =>
+  AuditService.recordAuthEvent({
+    type,
+    outcome: 'success',
+    userId,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+    metadata: { ...metadata, changedBy: req.user?.id ?? null }
+  });
+
+const requireUserId = (req: Request): string => {
+  const userId = req.params.id;
+  if (!userId) {
+    throw new ValidationError('User ID is required');
+  }
+  return userId;
+};
+
+/**
+ * Support staff may act on regular users only; staff accounts are managed by admins
+ */
+const assertCanManage = async (req: Request, userId: string): Promise<void> => {
+  if (req.user?.role === 'admin') {
+    return;
+  }
+
+  const targetRole = await RoleService.getUserRole(userId);
+  if (targetRole && RoleService.hasRole(targetRole, 'support')) {
+    throw new AuthorizationError('Only admins can manage staff accounts');
+  }
+};
+
+export class AdminController {
+  private static logger = Logger.getInstance();
+
+  /**
+   * Search users by mobile number, name or email
+   * GET /api/admin/users?q=&cursor=&limit=
+   */
+  static searchUsers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const query = typeof req.query.q === 'string' && req.query.q ? req.query.q : undefined;
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    const { users, nextCursor } = await AdminService.searchUsers({
+      ...(query && { query }),
+      ...(cursor && { cursor }),
+      ...(limit && !Number.isNaN(limit) && { limit })
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        users,
+        pagination: {
+          nextCursor,
+          hasMore: nextCursor !== null
+        }
+      }
+    });
+  });
+
+  /**
+   * Profile, subscription, usage and counts for one user
+   * GET /api/admin/users/:id
+   */
+  static getUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const detail = await AdminService.getUserDetail(requireUserId(req));
+
+    res.status(200).json({
+      status: 'success',
+      data: detail
+    });
+  });
+
+  /**
+   * Suspend an account and sign it out everywhere
+   * POST /api/admin/users/:id/suspend
+   */
+  static suspendUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = requireUserId(req);
+    await assertCanManage(req, userId);
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : undefined;
+
+    if (userId === req.user?.id) {
+      throw new ValidationError('You cannot suspend your own account');
+    }
+
+    const { user, revokedSessions } = await AuthService.suspendUser(userId, reason);
+
+    await recordAdminAction(req, userId, 'account_suspended', { reason: reason ?? null, revokedSessions });
+    this.logger.info(`User ${userId} suspended by ${req.user?.id}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'User suspended',
+      data: {
+        user,
+        revokedSessions
+      }
+    });
+  });
+
+  /**
+   * Lift a suspension
+   * POST /api/admin/users/:id/unsuspend
+   */
+  static unsuspendUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = requireUserId(req);
+    await assertCanManage(req, userId);
+
+    const user = await AuthService.unsuspendUser(userId);
+
+    await recordAdminAction(req, userId, 'account_unsuspended');
+    this.logger.info(`User ${userId} unsuspended by ${req.user?.id}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'User unsuspended',
+      data: {
+        user
+      }
+    });
+  });
+
+  /**
+   * Sign a user out of every device
+   * POST /api/admin/users/:id/logout
+   */
+  static forceLogout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = requireUserId(req);
+    await assertCanManage(req, userId);
+
+    const revokedSessions = await AuthService.forceLogout(userId);
+
+    await recordAdminAction(req, userId, 'sessions_revoked', { revokedSessions });
+    this.logger.info(`User ${userId} logged out of all devices by ${req.user?.id}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'User logged out of all devices',
+      data: {
+        revokedSessions
+      }
+    });
+  });
+
+  /**
+   * Move a user to another tier without going through Stripe
+   * PUT /api/admin/users/:id/tier
+   */
+  static adjustTier = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = requireUserId(req);
+    await assertCanManage(req, userId);
+    const { tier } = req.body;
+
+    if (tier !== 'basic' && tier !== 'pro') {
+      throw new ValidationError('Tier must be either "basic" or "pro"');
+    }
+
+    const result = await SubscriptionService.getInstance().adjustTier(userId, tier);
+
+    await recordAdminAction(req, userId, 'tier_changed', { ...result });
+    this.logger.info(`Tier of user ${userId} set to ${tier} by ${req.user?.id}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: `Tier set to ${tier}`,
+      data: {
+        userId,
+        ...result
+      }
+    });
+  });
+
+  /**
+   * Reset a user's daily message count
+   * POST /api/admin/users/:id/reset-usage
+   */
+  static resetDailyUsage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = requireUserId(req);
+    await assertCanManage(req, userId);
+
+    const result = await SubscriptionService.getInstance().resetUserDailyUsage(userId);
+
+    await recordAdminAction(req, userId, 'usage_reset', { ...result });
+    this.logger.info(`Daily usage of user ${userId} reset by ${req.user?.id}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Daily message count reset',
+      data: {
+        userId,
+        dailyMessageCount: 0,
+        ...result
+      }
+    });
+  });
+
+  /**
+   * Grant or revoke a role
+   * PUT /api/admin/users/:id/role
+   */
+  static setUserRole = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = requireUserId(req);
+    const { role } = req.body;
+
+    if (!RoleService.isRole(role)) {
+      throw new ValidationError(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+
+    const result = await RoleService.setUserRole(userId, role, {
+      actorId: req.user?.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    this.logger.info(`Admin ${req.user?.id} set role of user ${userId} to ${role}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: result.changed ? `Role set to ${result.role}` : `User already has role ${result.role}`,
+      data: {
+        userId,
+        ...result
+      }
+    });
+  });
+
+  /**
+   * List stored webhook events, optionally by status
+   * GET /api/admin/webhooks?status=&cursor=&limit=
+   */
+  static listWebhookEvents = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    const { events, nextCursor } = await WebhookEventService.listEvents({
+      ...(status && { status }),
+      ...(cursor && { cursor }),
+      ...(limit && !Number.isNaN(limit) && { limit })
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        events,
+        pagination: {
+          nextCursor,
+          hasMore: nextCursor !== null
+        }
+      }
+    });
+  });
+
+  /**
+   * Queue a failed webhook event for another run
+   * POST /api/admin/webhooks/:id/replay
+   */
+  static replayWebhookEvent = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const eventId = req.params.id;
+    if (!eventId) {
+      throw new ValidationError('Webhook event ID is required');
+    }
+
+    const event = await WebhookEventService.replayEvent(eventId);
+
+    this.logger.info(`Admin ${req.user?.id} replayed webhook event ${eventId}`);
+
+    res.status(202).json({
+      status: 'success',
+      message: 'Webhook event queued for replay',
+      data: {
+        event
+      }
+    });
+  });
+
+  /**
+   * Queue every failed webhook event for another run
+   * POST /api/admin/webhooks/replay-failed
+   */
+  static replayFailedWebhookEvents = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await WebhookEventService.replayFailedEvents();
+
+    this.logger.info(`Admin ${req.user?.id} replayed ${result.replayed} failed webhook events`);
+
+    res.status(202).json({
+      status: 'success',
+      message: `${result.replayed} webhook events queued for replay`,
+      data: result
+    });
+  });
+}
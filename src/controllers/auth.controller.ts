@@ -1,11 +1,88 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthService } from '../services/auth.service';
+import { AuthService, LoginResult } from '../services/auth.service';
 import { OTPService } from '../services/otp.service';
+import { SessionService, ClientInfo } from '../services/session.service';
+import { AuditService, AuthEventInput } from '../services/audit.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { EmailAuthService } from '../services/emailAuth.service';
+import { JWTService } from '../services/jwt.service';
 import { asyncHandler } from '../middleware/error.middleware';
 import { Logger } from '../utils/logger';
+import { AppConfig } from '../config/app.config';
 
 const logger = Logger.getInstance();
 
+const getClientInfo = (req: Request): ClientInfo => ({
+  deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName.trim() : undefined,
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+const recordAuthEvent = (req: Request, event: Omit<AuthEventInput, 'ipAddress' | 'userAgent'>): Promise<void> =>
+  AuditService.recordAuthEvent({
+    ...event,
+    mobileNumber: event.mobileNumber && OTPService.formatMobileNumber(event.mobileNumber),
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  });
+
+// Only a challenge with a valid signature may name the account in the audit log
+const challengeUserId = (challengeToken: unknown): string | undefined => {
+  try {
+    return JWTService.verifyTwoFactorChallenge(String(challengeToken));
+  } catch {
+    return undefined;
+  }
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Answer a passed first factor with a two-factor challenge or the new session
+ */
+const respondWithLogin = async (
+  req: Request,
+  res: Response,
+  result: LoginResult,
+  event: Pick<AuthEventInput, 'mobileNumber' | 'metadata'> = {}
+): Promise<void> => {
+  if (result.twoFactorRequired) {
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor code required',
+      data: {
+        twoFactorRequired: true,
+        challengeToken: result.challengeToken,
+        challengeExpiresAt: result.challengeExpiresAt
+      }
+    });
+    return;
+  }
+
+  await recordAuthEvent(req, {
+    type: 'login',
+    outcome: 'success',
+    userId: result.user.id,
+    sessionId: result.sessionId,
+    ...event
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Authentication successful',
+    data: {
+      twoFactorRequired: false,
+      user: result.user,
+      token: result.token,
+      expiresAt: result.expiresAt,
+      refreshToken: result.refreshToken,
+      refreshExpiresAt: result.refreshExpiresAt,
+      sessionId: result.sessionId
+    }
+  });
+};
+
 export class AuthController {
   /**
    * Register a new user
@@ -27,12 +104,19 @@ export class AuthController {
     }
 
     // Register user
-    const result = await AuthService.registerUser({
-      mobileNumber,
-      name,
-      password
-    });
+    let result;
+    try {
+      result = await AuthService.registerUser({
+        mobileNumber,
+        name,
+        password
+      });
+    } catch (error) {
+      await recordAuthEvent(req, { type: 'signup', outcome: 'failure', mobileNumber, reason: errorMessage(error) });
+      throw error;
+    }
 
+    await recordAuthEvent(req, { type: 'signup', outcome: 'success', userId: result.user.id, mobileNumber });
     logger.info(`User registered: ${result.user.id}`);
 
     res.status(201).json({
@@ -52,15 +136,29 @@ export class AuthController {
     const { mobileNumber, purpose = 'login' } = req.body;
 
     // Send OTP
-    const result = await AuthService.sendOTP(mobileNumber, purpose);
+    let result;
+    try {
+      result = await AuthService.sendOTP(mobileNumber, purpose);
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'otp_sent',
+        outcome: 'failure',
+        mobileNumber,
+        reason: errorMessage(error),
+        metadata: { purpose }
+      });
+      throw error;
+    }
 
+    await recordAuthEvent(req, { type: 'otp_sent', outcome: 'success', mobileNumber, metadata: { purpose } });
     logger.info(`OTP sent to ${mobileNumber} for ${purpose}`);
 
     res.status(200).json({
       status: 'success',
       message: result.message,
       data: {
-        otpCode: result.otpCode, // In production, remove this
+        // Codes are delivered by SMS; echo them back only for local development
+        ...(AppConfig.isDevelopment && { otpCode: result.otpCode }),
         expiresAt: result.expiresAt,
         purpose
       }
@@ -75,17 +173,200 @@ export class AuthController {
     const { mobileNumber, otpCode, purpose = 'login' } = req.body;
 
     // Verify OTP and authenticate
-    const result = await AuthService.verifyOTP(mobileNumber, otpCode, purpose);
+    let result;
+    try {
+      result = await AuthService.verifyOTP(mobileNumber, otpCode, purpose, getClientInfo(req));
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'otp_failed',
+        outcome: 'failure',
+        mobileNumber,
+        reason: errorMessage(error),
+        metadata: { purpose }
+      });
+      throw error;
+    }
+
+    await recordAuthEvent(req, {
+      type: 'otp_verified',
+      outcome: 'success',
+      userId: result.user.id,
+      mobileNumber,
+      metadata: { purpose }
+    });
 
     logger.info(`OTP verified for user: ${result.user.id}`);
 
+    await respondWithLogin(req, res, result, { mobileNumber });
+  });
+
+  /**
+   * Complete a login with a TOTP or recovery code
+   * POST /api/auth/2fa/verify
+   */
+  static verifyTwoFactorLogin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { challengeToken, code } = req.body;
+
+    let result;
+    try {
+      result = await AuthService.completeTwoFactorLogin(challengeToken, code, getClientInfo(req));
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'two_factor_failed',
+        outcome: 'failure',
+        userId: challengeUserId(challengeToken),
+        reason: errorMessage(error)
+      });
+      throw error;
+    }
+
+    await respondWithLogin(req, res, result, { metadata: { twoFactorMethod: result.method } });
+  });
+
+  /**
+   * Two-factor status for the current user
+   * GET /api/auth/2fa
+   */
+  static getTwoFactorStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const twoFactor = await TwoFactorService.getStatus(userId);
+
     res.status(200).json({
       status: 'success',
-      message: 'Authentication successful',
       data: {
-        user: result.user,
-        token: result.token,
-        expiresAt: result.expiresAt
+        twoFactor
+      }
+    });
+  });
+
+  /**
+   * Start enrolling an authenticator app
+   * POST /api/auth/2fa/setup
+   */
+  static setupTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const enrollment = await TwoFactorService.startEnrollment(userId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: enrollment
+    });
+  });
+
+  /**
+   * Confirm enrollment with the first code; returns recovery codes once
+   * POST /api/auth/2fa/enable
+   */
+  static enableTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(userId, req.body.code);
+
+    await recordAuthEvent(req, { type: 'two_factor_enabled', outcome: 'success', userId, sessionId: req.user?.sessionId });
+    logger.info(`Two-factor enabled for user: ${userId}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are shown only once.',
+      data: {
+        recoveryCodes
+      }
+    });
+  });
+
+  /**
+   * Turn off two-factor authentication
+   * POST /api/auth/2fa/disable
+   */
+  static disableTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      await TwoFactorService.disable(userId, req.body.code);
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'two_factor_disabled',
+        outcome: 'failure',
+        userId,
+        sessionId: req.user?.sessionId,
+        reason: errorMessage(error)
+      });
+      throw error;
+    }
+
+    await recordAuthEvent(req, { type: 'two_factor_disabled', outcome: 'success', userId, sessionId: req.user?.sessionId });
+    logger.info(`Two-factor disabled for user: ${userId}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled'
+    });
+  });
+
+  /**
+   * Replace the recovery codes
+   * POST /api/auth/2fa/recovery-codes
+   */
+  static regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(userId, req.body.code);
+
+    await recordAuthEvent(req, {
+      type: 'recovery_codes_regenerated',
+      outcome: 'success',
+      userId,
+      sessionId: req.user?.sessionId
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'New recovery codes generated; the old ones no longer work',
+      data: {
+        recoveryCodes
       }
     });
   });
@@ -108,15 +389,34 @@ export class AuthController {
     }
 
     // Send OTP for password reset
-    const result = await AuthService.sendOTP(mobileNumber, 'password_reset');
+    let result;
+    try {
+      result = await AuthService.sendOTP(mobileNumber, 'password_reset');
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'otp_sent',
+        outcome: 'failure',
+        mobileNumber,
+        reason: errorMessage(error),
+        metadata: { purpose: 'password_reset' }
+      });
+      throw error;
+    }
 
+    await recordAuthEvent(req, {
+      type: 'otp_sent',
+      outcome: 'success',
+      mobileNumber,
+      metadata: { purpose: 'password_reset' }
+    });
     logger.info(`Password reset OTP sent to ${mobileNumber}`);
 
     res.status(200).json({
       status: 'success',
       message: result.message,
       data: {
-        otpCode: result.otpCode, // In production, remove this
+        // Codes are delivered by SMS; echo them back only for local development
+        ...(AppConfig.isDevelopment && { otpCode: result.otpCode }),
         expiresAt: result.expiresAt,
         purpose: 'password_reset'
       }
@@ -129,7 +429,7 @@ export class AuthController {
    */
   static changePassword = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { currentPassword, newPassword } = req.body;
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
 
     if (!userId) {
       res.status(401).json({
@@ -150,8 +450,21 @@ export class AuthController {
     }
 
     // Change password
-    const result = await AuthService.changePassword(userId, currentPassword, newPassword);
+    let result;
+    try {
+      result = await AuthService.changePassword(userId, currentPassword, newPassword, req.user?.sessionId);
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'password_change',
+        outcome: 'failure',
+        userId,
+        sessionId: req.user?.sessionId,
+        reason: errorMessage(error)
+      });
+      throw error;
+    }
 
+    await recordAuthEvent(req, { type: 'password_change', outcome: 'success', userId, sessionId: req.user?.sessionId });
     logger.info(`Password changed for user: ${userId}`);
 
     res.status(200).json({
@@ -178,8 +491,15 @@ export class AuthController {
     }
 
     // Reset password
-    const result = await AuthService.resetPassword(mobileNumber, otpCode, newPassword);
+    let result;
+    try {
+      result = await AuthService.resetPassword(mobileNumber, otpCode, newPassword);
+    } catch (error) {
+      await recordAuthEvent(req, { type: 'password_reset', outcome: 'failure', mobileNumber, reason: errorMessage(error) });
+      throw error;
+    }
 
+    await recordAuthEvent(req, { type: 'password_reset', outcome: 'success', mobileNumber });
     logger.info(`Password reset completed for mobile: ${mobileNumber}`);
 
     res.status(200).json({
@@ -269,16 +589,266 @@ export class AuthController {
   });
 
   /**
-   * Logout user (client-side token invalidation)
+   * Check if an email address is registered and verified
+   * POST /api/auth/check-email
+   */
+  static checkEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email } = req.body;
+
+    const exists = await EmailAuthService.emailExists(email);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        exists
+      }
+    });
+  });
+
+  /**
+   * Email a login code and magic link
+   * POST /api/auth/email/send-otp
+   */
+  static sendEmailOTP = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const email = EmailAuthService.normalizeEmail(req.body.email);
+
+    let result;
+    try {
+      result = await EmailAuthService.sendLoginCode(email, req.ip);
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'otp_sent',
+        outcome: 'failure',
+        reason: errorMessage(error),
+        metadata: { purpose: 'login', channel: 'email', email }
+      });
+      throw error;
+    }
+
+    await recordAuthEvent(req, {
+      type: 'otp_sent',
+      outcome: 'success',
+      metadata: { purpose: 'login', channel: 'email', email }
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: `Login code sent to ${email}`,
+      data: {
+        // Codes are delivered by email; echo them back only for local development
+        ...(AppConfig.isDevelopment && { otpCode: result.code }),
+        expiresAt: result.expiresAt
+      }
+    });
+  });
+
+  /**
+   * Log in with an emailed code
+   * POST /api/auth/email/verify-otp
+   */
+  static verifyEmailOTP = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const email = EmailAuthService.normalizeEmail(req.body.email);
+
+    let result;
+    try {
+      result = await AuthService.verifyEmailOTP(email, req.body.code, getClientInfo(req));
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'otp_failed',
+        outcome: 'failure',
+        reason: errorMessage(error),
+        metadata: { purpose: 'login', channel: 'email', email }
+      });
+      throw error;
+    }
+
+    await recordAuthEvent(req, {
+      type: 'otp_verified',
+      outcome: 'success',
+      userId: result.user.id,
+      metadata: { purpose: 'login', channel: 'email' }
+    });
+
+    await respondWithLogin(req, res, result, { metadata: { method: 'email_otp' } });
+  });
+
+  /**
+   * Log in with an emailed magic link token
+   * POST /api/auth/email/magic-link
+   */
+  static verifyMagicLink = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    let result;
+    try {
+      result = await AuthService.verifyMagicLink(req.body.token, getClientInfo(req));
+    } catch (error) {
+      await recordAuthEvent(req, {
+        type: 'otp_failed',
+        outcome: 'failure',
+        reason: errorMessage(error),
+        metadata: { purpose: 'login', channel: 'magic_link' }
+      });
+      throw error;
+    }
+
+    await recordAuthEvent(req, {
+      type: 'otp_verified',
+      outcome: 'success',
+      userId: result.user.id,
+      metadata: { purpose: 'login', channel: 'magic_link' }
+    });
+
+    await respondWithLogin(req, res, result, { metadata: { method: 'magic_link' } });
+  });
+
+  /**
+   * Start adding an email address to the account
+   * POST /api/auth/email
+   */
+  static addEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const result = await EmailAuthService.requestEmailVerification(userId, req.body.email);
+
+    await recordAuthEvent(req, {
+      type: 'otp_sent',
+      outcome: 'success',
+      userId,
+      sessionId: req.user?.sessionId,
+      metadata: { purpose: 'verify_email', channel: 'email', email: result.email }
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: `Confirmation code sent to ${result.email}`,
+      data: {
+        ...(AppConfig.isDevelopment && { otpCode: result.code }),
+        email: result.email,
+        expiresAt: result.expiresAt
+      }
+    });
+  });
+
+  /**
+   * Confirm the pending email address with the emailed code
+   * POST /api/auth/email/verify
+   */
+  static verifyEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const user = await EmailAuthService.confirmEmailWithCode(userId, req.body.code);
+
+    await recordAuthEvent(req, {
+      type: 'email_verified',
+      outcome: 'success',
+      userId,
+      sessionId: req.user?.sessionId,
+      metadata: { email: user.email }
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Email address verified',
+      data: {
+        email: user.email,
+        emailVerifiedAt: user.emailVerifiedAt
+      }
+    });
+  });
+
+  /**
+   * Confirm the pending email address with the emailed link; works signed out
+   * POST /api/auth/email/confirm
+   */
+  static confirmEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = await EmailAuthService.confirmEmailWithToken(req.body.token);
+
+    await recordAuthEvent(req, {
+      type: 'email_verified',
+      outcome: 'success',
+      userId: user.id,
+      metadata: { email: user.email }
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Email address verified',
+      data: {
+        email: user.email,
+        emailVerifiedAt: user.emailVerifiedAt
+      }
+    });
+  });
+
+  /**
+   * Remove the email address from the account
+   * DELETE /api/auth/email
+   */
+  static removeEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    await EmailAuthService.removeEmail(userId);
+
+    await recordAuthEvent(req, { type: 'email_removed', outcome: 'success', userId, sessionId: req.user?.sessionId });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Email address removed'
+    });
+  });
+
+  /**
+   * Logout the current session
    * POST /api/auth/logout
    */
   static logout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const userId = req.user?.id;
 
-    if (userId) {
-      logger.info(`User logged out: ${userId}`);
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
     }
 
+    // Tokens issued before sessions existed carry no session ID; fall back to the refresh token
+    const { refreshToken } = req.body;
+    const sessionId = req.user?.sessionId ??
+      (typeof refreshToken === 'string'
+        ? (await SessionService.findSessionByRefreshToken(refreshToken, userId))?.id
+        : undefined);
+
+    if (sessionId) {
+      await SessionService.revokeSession(sessionId, 'logout');
+    }
+
+    await recordAuthEvent(req, { type: 'logout', outcome: 'success', userId, sessionId });
+    logger.info(`User logged out: ${userId}`);
+
     res.status(200).json({
       status: 'success',
       message: 'Logged out successfully'
@@ -286,38 +856,89 @@ export class AuthController {
   });
 
   /**
-   * Refresh token (placeholder for future implementation)
+   * Logout every session of the user
+   * POST /api/auth/logout-all
+   */
+  static logoutAll = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const revokedSessions = await SessionService.revokeAllSessions(userId, 'logout_all');
+
+    await recordAuthEvent(req, {
+      type: 'logout',
+      outcome: 'success',
+      userId,
+      sessionId: req.user?.sessionId,
+      metadata: { scope: 'all', revokedSessions }
+    });
+    logger.info(`User logged out of all devices: ${userId}`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Logged out of all devices',
+      data: {
+        revokedSessions
+      }
+    });
+  });
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
    * POST /api/auth/refresh
    */
   static refreshToken = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    res.status(501).json({
-      status: 'error',
-      message: 'Refresh token functionality not implemented yet'
+    const { refreshToken } = req.body;
+
+    const result = await SessionService.rotateRefreshToken(refreshToken, getClientInfo(req));
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Token refreshed',
+      data: {
+        token: result.token,
+        expiresAt: result.expiresAt,
+        refreshToken: result.refreshToken,
+        refreshExpiresAt: result.refreshExpiresAt,
+        sessionId: result.sessionId
+      }
     });
   });
 
   /**
-   * Get OTP status (remaining validity time)
+   * Get OTP status (remaining validity time and lockout)
    * POST /api/auth/otp-status
    */
   static getOTPStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { mobileNumber, purpose = 'login' } = req.body;
+    const formattedMobile = OTPService.formatMobileNumber(mobileNumber);
 
-    // Get OTP validity time
-    const remainingTime = await OTPService.getOTPValidityTime(mobileNumber, purpose);
+    // Get OTP validity time and brute-force lockout state
+    const [remainingTime, lockout] = await Promise.all([
+      OTPService.getOTPValidityTime(formattedMobile, purpose),
+      OTPService.getLockoutStatus(formattedMobile, purpose)
+    ]);
 
     res.status(200).json({
       status: 'success',
       data: {
         remainingTime,
-        isValid: remainingTime > 0
+        isValid: remainingTime > 0 && !lockout.locked,
+        lockout
       }
     });
   });
 
   /**
-   * Get user's authentication history (placeholder)
-   * GET /api/auth/history
+   * Get user's authentication history, newest first
+   * GET /api/auth/history?cursor=&limit=
    */
   static getAuthHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const userId = req.user?.id;
@@ -330,11 +951,22 @@ export class AuthController {
       return;
     }
 
-    // This would typically fetch from an audit log table
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    const { events, nextCursor } = await AuditService.getAuthHistory(userId, {
+      ...(cursor && { cursor }),
+      ...(limit && !Number.isNaN(limit) && { limit })
+    });
+
     res.status(200).json({
       status: 'success',
       data: {
-        history: []
+        history: events,
+        pagination: {
+          nextCursor,
+          hasMore: nextCursor !== null
+        }
       }
     });
   });
@@ -357,6 +989,12 @@ export class AuthController {
     // Delete user account
     await AuthService.deleteUser(userId);
 
+    await recordAuthEvent(req, {
+      type: 'account_deleted',
+      outcome: 'success',
+      mobileNumber: req.user?.mobileNumber,
+      metadata: { userId }
+    });
     logger.info(`Account deleted for user: ${userId}`);
 
     res.status(200).json({
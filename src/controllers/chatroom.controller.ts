@@ -1,7 +1,14 @@
+import fs from 'fs';
 import { Request, Response } from 'express';
+import { Job } from 'bullmq';
 import { ChatroomService } from '../services/chatroom.service';
+import { StreamService, StreamEvent } from '../services/stream.service';
+import { ContextService } from '../services/context.service';
+import { ExportService } from '../services/export.service';
+import { ImportService } from '../services/import.service';
 import { Logger } from '../utils/logger';
-import { asyncHandler } from '../middleware/error.middleware';
+import { QueueService, GeminiMessageJob } from '../services/queue.service';
+import { asyncHandler, NotFoundError } from '../middleware/error.middleware';
 
 export class ChatroomController {
   private static logger = Logger.getInstance();
@@ -116,56 +123,153 @@ export class ChatroomController {
    * Update a chatroom
    * PUT /api/v1/chatrooms/:id
    */
-  static async updateChatroom(req: Request, res: Response): Promise<void> {
-    try {
-      if (!req.user) {
-        res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-        return;
-      }
+  static updateChatroom = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
 
-      const userId = req.user.id;
-      const chatroomId = req.params.id;
-      
-      if (!chatroomId) {
-        res.status(400).json({
-          status: 'error',
-          message: 'Chatroom ID is required'
-        });
-        return;
-      }
+    const userId = req.user.id;
+    const chatroomId = req.params.id;
+    
+    if (!chatroomId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID is required'
+      });
+      return;
+    }
 
-      const { name, description } = req.body;
+    const {
+      name,
+      description,
+      systemPrompt,
+      modelName,
+      temperature,
+      topP,
+      maxOutputTokens,
+      contextTokenBudget
+    } = req.body;
+
+    const chatroom = await ChatroomService.updateChatroom(chatroomId, userId, {
+      name,
+      description,
+      systemPrompt,
+      modelName,
+      temperature,
+      topP,
+      maxOutputTokens,
+      contextTokenBudget
+    });
+
+    this.logger.info(`Chatroom updated successfully: ${chatroom.id}`);
+    res.status(200).json({
+      status: 'success',
+      message: 'Chatroom updated successfully',
+      data: { chatroom }
+    });
+  });
 
-      const chatroom = await ChatroomService.updateChatroom(chatroomId, userId, {
-        name,
-        description
+  /**
+   * Fork a chatroom at a message into a new chatroom
+   * POST /api/chatroom/:id/fork
+   */
+  static forkChatroom = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
       });
+      return;
+    }
 
-      if (!chatroom) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Chatroom not found'
-        });
-        return;
-      }
+    const chatroomId = req.params.id;
+    const { messageId, name } = req.body;
 
-      this.logger.info(`Chatroom updated successfully: ${chatroom.id}`);
-      res.status(200).json({
-        status: 'success',
-        message: 'Chatroom updated successfully',
-        data: { chatroom }
+    if (!chatroomId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID is required'
       });
-    } catch (error) {
-      this.logger.error('Update chatroom failed:', error);
-      res.status(500).json({
+      return;
+    }
+
+    const chatroom = await ChatroomService.forkChatroom(chatroomId, req.user.id, { messageId, name });
+
+    this.logger.info(`Chatroom forked successfully: ${chatroomId} -> ${chatroom.id}`);
+    res.status(201).json({
+      status: 'success',
+      message: 'Chatroom forked successfully',
+      data: { chatroom }
+    });
+  });
+
+  /**
+   * Download a whole conversation as Markdown, JSON or HTML
+   * GET /api/chatroom/:id/export?format=md|json|html
+   */
+  static exportChatroom = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
         status: 'error',
-        message: 'Failed to update chatroom'
+        message: 'Authentication required'
       });
+      return;
     }
-  }
+
+    const chatroomId = req.params.id;
+
+    if (!chatroomId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID is required'
+      });
+      return;
+    }
+
+    const format = ExportService.parseFormat(req.query.format);
+    const chatroom = await ChatroomService.getOwnedChatroom(chatroomId, req.user.id);
+
+    res.status(200);
+    res.setHeader('Content-Type', ExportService.getContentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="${ExportService.getFileName(chatroom, format)}"`);
+
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+    });
+
+    // Respect backpressure so large conversations are not buffered in memory
+    const write = async (chunk: string): Promise<void> => {
+      if (closed) {
+        throw new Error('Client disconnected');
+      }
+      if (!res.write(chunk)) {
+        await new Promise<void>(resolve => {
+          const done = (): void => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+          };
+          res.once('drain', done);
+          res.once('close', done);
+        });
+      }
+    };
+
+    try {
+      const count = await ExportService.writeChatroom(chatroom, format, write);
+      this.logger.info(`Exported chatroom ${chatroom.id} as ${format} (${count} messages)`);
+    } catch (error) {
+      // Headers are already sent, so the error handler cannot reply
+      this.logger.error(`Export of chatroom ${chatroom.id} failed:`, error);
+    } finally {
+      res.end();
+    }
+  });
 
   /**
    * Delete a chatroom
@@ -241,6 +345,93 @@ export class ChatroomController {
     }
   }
 
+  /**
+   * Queue an import of an uploaded ChatGPT or Gemini export
+   * POST /api/chatroom/import
+   */
+  static importConversations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'An export file is required in the "file" field'
+      });
+      return;
+    }
+
+    let source;
+    try {
+      source = ImportService.parseSource(req.body?.source);
+    } catch (error) {
+      await fs.promises.rm(req.file.path, { force: true });
+      throw error;
+    }
+
+    const job = await QueueService.getInstance().enqueueConversationImport({
+      userId: req.user.id,
+      filePath: req.file.path,
+      originalName: req.file.originalname,
+      source,
+      requestedAt: new Date()
+    });
+
+    this.logger.info(`Conversation import queued for user: ${req.user.id}, Job ID: ${job.id}`);
+    res.status(202).json({
+      status: 'success',
+      message: 'Import queued',
+      data: {
+        import: {
+          id: job.id,
+          status: 'queued',
+          statusUrl: `/api/chatroom/import/${job.id}`
+        }
+      }
+    });
+  });
+
+  /**
+   * Get the progress and result of a conversation import
+   * GET /api/chatroom/import/:jobId
+   */
+  static getImportStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const jobId = req.params.jobId;
+
+    if (!jobId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Import ID is required'
+      });
+      return;
+    }
+
+    const job = await QueueService.getInstance().getConversationImportJob(jobId);
+    if (!job || job.data.userId !== req.user.id) {
+      throw new NotFoundError('Import not found');
+    }
+
+    const importStatus = await QueueService.getInstance().getConversationImportStatus(job);
+
+    res.status(200).json({
+      status: 'success',
+      data: { import: importStatus }
+    });
+  });
+
   /**
    * Search chatrooms
    * GET /api/v1/chatrooms/search
@@ -302,7 +493,7 @@ export class ChatroomController {
       return;
     }
 
-    if (!content || content.trim().length === 0) {
+    if (typeof content !== 'string' || content.trim().length === 0) {
       res.status(400).json({
         status: 'error',
         message: 'Message content is required'
@@ -352,7 +543,8 @@ export class ChatroomController {
           geminiJob: {
             id: geminiJob.id,
             status: 'queued',
-            estimatedProcessingTime: '2-5 seconds'
+            estimatedProcessingTime: '2-5 seconds',
+            streamUrl: `/api/chatroom/${chatroomId}/stream?jobId=${geminiJob.id}`
           }
         }
       });
@@ -364,4 +556,293 @@ export class ChatroomController {
       });
     }
   });
-} 
\ No newline at end of file
+
+  /**
+   * Stream AI reply chunks for a chatroom via Server-Sent Events
+   * GET /api/chatroom/:id/stream?jobId=
+   */
+  static streamChatroom = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const userId = req.user.id;
+    const chatroomId = req.params.id;
+    const jobId = req.query.jobId as string | undefined;
+
+    if (!chatroomId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID is required'
+      });
+      return;
+    }
+
+    // Ensure user owns this chatroom (and the job, if one was named) before opening the stream
+    const job = jobId
+      ? await ChatroomController.getOwnedGeminiJob(chatroomId, jobId, userId)
+      : undefined;
+    if (!job) {
+      await ChatroomService.getOwnedChatroom(chatroomId, userId);
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    let closed = false;
+    let unsubscribe: (() => Promise<void>) | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    const send = (event: string, data: unknown): void => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // Push through the compression middleware immediately
+      res.flush();
+    };
+
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      if (heartbeat) clearInterval(heartbeat);
+      if (unsubscribe) void unsubscribe();
+      res.end();
+    };
+
+    req.on('close', close);
+
+    // Headers are already sent, so failures from here on are reported on the stream itself
+    try {
+      unsubscribe = await StreamService.subscribe(chatroomId, (event: StreamEvent) => {
+        if (jobId && event.jobId !== jobId) return;
+
+        send(event.type, event);
+
+        // A stream scoped to one job ends once that job settles
+        if (jobId && (event.type === 'done' || event.type === 'error')) {
+          close();
+        }
+      });
+
+      // The client went away while we were subscribing
+      if (closed) {
+        await unsubscribe();
+        return;
+      }
+
+      heartbeat = setInterval(() => {
+        if (closed) return;
+        res.write(': heartbeat\n\n');
+        res.flush();
+      }, 15000);
+
+      send('ready', { chatRoomId: chatroomId, jobId: jobId || null });
+      this.logger.info(`SSE stream opened for chatroom: ${chatroomId}`);
+
+      // A job that settled before we subscribed will publish nothing more; replay its outcome.
+      // Checked after subscribing so a job finishing in between is caught by one path or the other.
+      const latestJob = job && await QueueService.getInstance().getGeminiJob(String(job.id));
+      if (job && latestJob) {
+        const jobStatus = await QueueService.getInstance().getGeminiJobStatus(latestJob);
+        const settled = { jobId: String(job.id), messageId: job.data.messageId, chatRoomId: chatroomId, timestamp: new Date().toISOString() };
+
+        if (jobStatus.state === 'completed') {
+          send('done', { type: 'done', ...settled, savedMessageId: jobStatus.savedMessageId ?? undefined });
+          close();
+        } else if (jobStatus.state === 'failed') {
+          send('error', { type: 'error', ...settled, error: jobStatus.failedReason ?? 'AI processing failed' });
+          close();
+        }
+      }
+    } catch (error) {
+      this.logger.error(`SSE stream for chatroom ${chatroomId} failed:`, error);
+      send('error', { type: 'error', jobId: jobId || null, chatRoomId: chatroomId, error: 'Stream failed', timestamp: new Date().toISOString() });
+      close();
+    }
+  });
+
+  /**
+   * Get the status of a queued Gemini job
+   * GET /api/chatroom/:id/jobs/:jobId
+   */
+  static getGeminiJobStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const chatroomId = req.params.id;
+    const jobId = req.params.jobId;
+
+    if (!chatroomId || !jobId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID and job ID are required'
+      });
+      return;
+    }
+
+    const job = await ChatroomController.getOwnedGeminiJob(chatroomId, jobId, req.user.id);
+    const jobStatus = await QueueService.getInstance().getGeminiJobStatus(job);
+
+    res.status(200).json({
+      status: 'success',
+      data: { job: jobStatus }
+    });
+  });
+
+  /**
+   * Cancel a Gemini job that is still waiting
+   * DELETE /api/chatroom/:id/jobs/:jobId
+   */
+  static cancelGeminiJob = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const chatroomId = req.params.id;
+    const jobId = req.params.jobId;
+
+    if (!chatroomId || !jobId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID and job ID are required'
+      });
+      return;
+    }
+
+    const job = await ChatroomController.getOwnedGeminiJob(chatroomId, jobId, req.user.id);
+    await QueueService.getInstance().cancelGeminiJob(job);
+
+    this.logger.info(`Gemini job cancelled: ${jobId} in chatroom: ${chatroomId}`);
+    res.status(200).json({
+      status: 'success',
+      message: 'Job cancelled successfully'
+    });
+  });
+
+  /**
+   * Get the conversation memory used for AI replies: token budget, window and rolling summary
+   * GET /api/chatroom/:id/context
+   */
+  static getConversationContext = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const chatroomId = req.params.id;
+
+    if (!chatroomId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID is required'
+      });
+      return;
+    }
+
+    const chatroom = await ChatroomService.getOwnedChatroom(chatroomId, req.user.id);
+    const { history, windowStart, summary, ...context } = await ContextService.buildContext(chatroom.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        context: {
+          ...context,
+          windowStart,
+          summary: summary
+            ? {
+                content: summary.content,
+                summarizedThrough: summary.summarizedThrough,
+                messageCount: summary.messageCount,
+                tokenCount: summary.tokenCount,
+                updatedAt: summary.updatedAt
+              }
+            : null
+        }
+      }
+    });
+  });
+
+  /**
+   * Queue a refresh of the chatroom's rolling summary
+   * POST /api/chatroom/:id/context/summary
+   */
+  static refreshConversationSummary = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const chatroomId = req.params.id;
+
+    if (!chatroomId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Chatroom ID is required'
+      });
+      return;
+    }
+
+    const chatroom = await ChatroomService.getOwnedChatroom(chatroomId, req.user.id);
+    const context = await ContextService.buildContext(chatroom.id);
+
+    if (context.unsummarizedMessages === 0) {
+      res.status(200).json({
+        status: 'success',
+        message: 'Summary is already up to date',
+        data: { queued: false }
+      });
+      return;
+    }
+
+    const job = await QueueService.getInstance().enqueueChatroomSummary({
+      chatRoomId: chatroom.id,
+      requestedAt: new Date()
+    });
+
+    res.status(202).json({
+      status: 'success',
+      message: 'Summary refresh queued',
+      data: { queued: true, jobId: job.id }
+    });
+  });
+
+  /**
+   * Load a Gemini job, ensuring it belongs to a chatroom owned by the user
+   */
+  private static async getOwnedGeminiJob(
+    chatroomId: string,
+    jobId: string,
+    userId: string
+  ): Promise<Job<GeminiMessageJob>> {
+    const chatroom = await ChatroomService.getOwnedChatroom(chatroomId, userId);
+
+    const job = await QueueService.getInstance().getGeminiJob(jobId);
+    if (!job || job.data.chatRoomId !== chatroom.id) {
+      throw new NotFoundError('Job not found');
+    }
+
+    return job;
+  }
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import { Request, Response } from 'express';
+import { Job } from 'bullmq';
+import { QueueService, AccountExportJob } from '../services/queue.service';
+import { ExportService } from '../services/export.service';
+import { Logger } from '../utils/logger';
+import { asyncHandler, ConflictError, NotFoundError } from '../middleware/error.middleware';
+
+export class ExportController {
+  private static logger = Logger.getInstance();
+
+  /**
+   * Queue an export of every chatroom in the account
+   * POST /api/user/exports
+   */
+  static requestAccountExport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const job = await QueueService.getInstance().enqueueAccountExport({
+      userId: req.user.id,
+      requestedAt: new Date()
+    });
+
+    this.logger.info(`Account export queued for user: ${req.user.id}, Job ID: ${job.id}`);
+    res.status(202).json({
+      status: 'success',
+      message: 'Account export queued',
+      data: {
+        export: {
+          id: job.id,
+          status: 'queued',
+          statusUrl: `/api/user/exports/${job.id}`
+        }
+      }
+    });
+  });
+
+  /**
+   * Get the status of an account export
+   * GET /api/user/exports/:jobId
+   */
+  static getAccountExportStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const jobId = req.params.jobId;
+
+    if (!jobId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Export ID is required'
+      });
+      return;
+    }
+
+    const job = await ExportController.getOwnedExportJob(jobId, req.user.id);
+    const exportStatus = await QueueService.getInstance().getAccountExportStatus(job);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        export: {
+          ...exportStatus,
+          downloadUrl: exportStatus.state === 'completed' ? `/api/user/exports/${job.id}/download` : null
+        }
+      }
+    });
+  });
+
+  /**
+   * Download a finished account export
+   * GET /api/user/exports/:jobId/download
+   */
+  static downloadAccountExport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const jobId = req.params.jobId;
+
+    if (!jobId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Export ID is required'
+      });
+      return;
+    }
+
+    const job = await ExportController.getOwnedExportJob(jobId, req.user.id);
+    const exportStatus = await QueueService.getInstance().getAccountExportStatus(job);
+
+    if (exportStatus.state !== 'completed' || !exportStatus.fileName) {
+      throw new ConflictError(`Export is not ready (${exportStatus.state})`);
+    }
+
+    const filePath = ExportService.getExportPath(exportStatus.fileName);
+    if (!fs.existsSync(filePath)) {
+      throw new NotFoundError('Export has expired; please request a new one');
+    }
+
+    const downloadName = `chatrooms-export-${exportStatus.createdAt.toISOString().slice(0, 10)}.zip`;
+    res.download(filePath, downloadName);
+  });
+
+  /**
+   * Load an export job, ensuring it belongs to the user
+   */
+  private static async getOwnedExportJob(jobId: string, userId: string): Promise<Job<AccountExportJob>> {
+    const job = await QueueService.getInstance().getAccountExportJob(jobId);
+    if (!job || job.data.userId !== userId) {
+      throw new NotFoundError('Export not found');
+    }
+
+    return job;
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { GeminiService } from '../services/gemini.service';
+import { AppConfig } from '../config/app.config';
 import { Logger } from '../utils/logger';
 
 export class GeminiController {
@@ -92,13 +93,18 @@ export class GeminiController {
   // Get Gemini API configuration
   static async getConfiguration(req: Request, res: Response): Promise<void> {
     try {
+      const provider = GeminiController.geminiService.getProvider();
       const config = {
+        provider: provider.name,
+        providerModel: provider.model,
         model: process.env.GEMINI_MODEL || 'gemini-1.5-flash',
         temperature: parseFloat(process.env.GEMINI_TEMPERATURE || '0.7'),
         maxTokens: parseInt(process.env.GEMINI_MAX_TOKENS || '2048'),
         topK: parseInt(process.env.GEMINI_TOP_K || '40'),
         topP: parseFloat(process.env.GEMINI_TOP_P || '0.95'),
         apiKeyConfigured: !!process.env.GEMINI_API_KEY,
+        openaiBaseUrl: AppConfig.openaiBaseUrl,
+        openaiModel: AppConfig.openaiModel,
       };
 
       res.json({
@@ -131,6 +137,7 @@ export class GeminiController {
         message: isHealthy ? 'Gemini service is healthy' : 'Gemini service is unhealthy',
         data: {
           connection: connectionHealthy,
+          provider: modelInfo.provider,
           model: modelInfo.currentModel,
           apiKeyConfigured: !!process.env.GEMINI_API_KEY,
         },
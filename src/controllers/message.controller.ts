@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { Message } from '@prisma/client';
 import { MessageService } from '../services/message.service';
 import { QueueService } from '../services/queue.service';
 import { Logger } from '../utils/logger';
@@ -472,4 +473,184 @@ export class MessageController {
       });
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Regenerate the AI reply to a prompt, keeping the old reply as an alternate
+   * POST /api/messages/:id/regenerate
+   */
+  static regenerateMessage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const userId = req.user.id;
+    const messageId = req.params.id;
+
+    if (!messageId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Message ID is required'
+      });
+      return;
+    }
+
+    const { prompt, replyGroupId, hiddenMessageIds } = await MessageService.regenerateReply(messageId, userId);
+    const geminiJob = await MessageController.enqueueReply(req, prompt, userId, replyGroupId);
+
+    this.logger.info(`Reply regeneration queued for message: ${prompt.id}, Job ID: ${geminiJob.id}`);
+    res.status(202).json({
+      status: 'success',
+      message: 'Reply regeneration queued',
+      data: {
+        prompt,
+        hiddenMessageIds,
+        geminiJob: {
+          id: geminiJob.id,
+          status: 'queued',
+          streamUrl: `/api/chatroom/${prompt.chatroomId}/stream?jobId=${geminiJob.id}`
+        }
+      }
+    });
+  });
+
+  /**
+   * Edit a user message, drop the later turns and queue a new reply
+   * PUT /api/messages/:id
+   */
+  static editMessage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const userId = req.user.id;
+    const messageId = req.params.id;
+    const { content } = req.body;
+
+    if (!messageId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Message ID is required'
+      });
+      return;
+    }
+
+    const { message, hiddenMessageIds } = await MessageService.editMessage(messageId, userId, content);
+    const geminiJob = await MessageController.enqueueReply(req, message, userId, null);
+
+    this.logger.info(`Message edited and queued for Gemini processing: ${message.id}, Job ID: ${geminiJob.id}`);
+    res.status(200).json({
+      status: 'success',
+      message: 'Message edited successfully and queued for AI processing',
+      data: {
+        message,
+        hiddenMessageIds,
+        geminiJob: {
+          id: geminiJob.id,
+          status: 'queued',
+          streamUrl: `/api/chatroom/${message.chatroomId}/stream?jobId=${geminiJob.id}`
+        }
+      }
+    });
+  });
+
+  /**
+   * List all versions of a message
+   * GET /api/messages/:id/versions
+   */
+  static getMessageVersions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const messageId = req.params.id;
+
+    if (!messageId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Message ID is required'
+      });
+      return;
+    }
+
+    const versions = await MessageService.getMessageVersions(messageId, req.user.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: { versions }
+    });
+  });
+
+  /**
+   * Switch the conversation to this version of a message
+   * POST /api/messages/:id/activate
+   */
+  static activateMessageVersion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const messageId = req.params.id;
+
+    if (!messageId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Message ID is required'
+      });
+      return;
+    }
+
+    const result = await MessageService.activateVersion(messageId, req.user.id);
+
+    this.logger.info(`Message version activated: ${messageId}`);
+    res.status(200).json({
+      status: 'success',
+      message: 'Message version activated',
+      data: result
+    });
+  });
+
+  /**
+   * Queue a Gemini reply for a user message
+   */
+  private static async enqueueReply(
+    req: Request,
+    prompt: Message,
+    userId: string,
+    replyGroupId: string | null
+  ) {
+    return MessageController.queueService.enqueueGeminiMessage({
+      messageId: prompt.id,
+      chatRoomId: prompt.chatroomId,
+      userId,
+      userMessage: prompt.content,
+      context: {
+        messageType: prompt.messageType,
+        timestamp: new Date(),
+        chatRoomId: prompt.chatroomId,
+        userId,
+        ...(replyGroupId && { replyGroupId }),
+      },
+      metadata: {
+        timestamp: new Date(),
+        clientId: req.headers['x-client-id'] as string,
+        sessionId: req.headers['x-session-id'] as string,
+      },
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { SessionService } from '../services/session.service';
+import { AuditService } from '../services/audit.service';
+import { Logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/error.middleware';
+
+export class SessionController {
+  private static logger = Logger.getInstance();
+
+  /**
+   * List the devices the user is logged in on
+   * GET /api/user/sessions
+   */
+  static getSessions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const sessions = await SessionService.listSessions(req.user.id, req.user.sessionId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        sessions
+      }
+    });
+  });
+
+  /**
+   * Log out a single device
+   * DELETE /api/user/sessions/:id
+   */
+  static revokeSession = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const sessionId = req.params.id;
+
+    if (!sessionId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Session ID is required'
+      });
+      return;
+    }
+
+    await SessionService.revokeUserSession(req.user.id, sessionId);
+
+    await AuditService.recordAuthEvent({
+      type: 'logout',
+      outcome: 'success',
+      userId: req.user.id,
+      sessionId: req.user.sessionId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      metadata: { scope: 'session', revokedSessionId: sessionId }
+    });
+
+    this.logger.info(`Session ${sessionId} revoked by user: ${req.user.id}`);
+    res.status(200).json({
+      status: 'success',
+      message: 'Session revoked',
+      data: {
+        sessionId,
+        current: sessionId === req.user.sessionId
+      }
+    });
+  });
+}
@@ -1,16 +1,17 @@
 import { Request, Response } from 'express';
 import { SubscriptionService } from '../services/subscription.service';
-import { asyncHandler } from '../middleware/error.middleware';
+import { asyncHandler, ValidationError } from '../middleware/error.middleware';
 import { Logger } from '../utils/logger';
+import { AppConfig } from '../config/app.config';
 
 const logger = Logger.getInstance();
 
 export class SubscriptionController {
   /**
-   * Subscribe to Pro tier
-   * POST /api/subscription/pro
+   * Start a Stripe Checkout session for the Pro tier
+   * POST /api/subscription/checkout
    */
-  static subscribeToPro = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  static createCheckout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const userId = req.user?.id;
 
     if (!userId) {
@@ -21,17 +22,44 @@ export class SubscriptionController {
       return;
     }
 
-    // Create subscription
-    const subscription = await SubscriptionService.getInstance().createSubscription(userId, 'pro');
+    const { promoCode } = req.body ?? {};
+    if (promoCode !== undefined && (typeof promoCode !== 'string' || !promoCode.trim())) {
+      throw new ValidationError('promoCode must be a non-empty string');
+    }
+
+    const checkout = await SubscriptionService.getInstance().createCheckoutSession(userId, {
+      ...(promoCode && { promoCode: promoCode.trim() })
+    });
 
-    logger.info(`User ${userId} subscribed to Pro tier`);
+    logger.info(`User ${userId} started checkout for Pro tier`);
 
     res.status(201).json({
       status: 'success',
-      message: 'Successfully subscribed to Pro tier',
-      data: {
-        subscription
-      }
+      message: 'Checkout session created',
+      data: checkout
+    });
+  });
+
+  /**
+   * Open the Stripe Customer Portal to manage billing
+   * POST /api/subscription/portal
+   */
+  static openBillingPortal = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const portal = await SubscriptionService.getInstance().createPortalSession(userId);
+
+    res.status(200).json({
+      status: 'success',
+      data: portal
     });
   });
 
@@ -54,12 +82,19 @@ export class SubscriptionController {
     const limits = subscription 
       ? SubscriptionService.getInstance().getSubscriptionLimits(subscription.tier)
       : SubscriptionService.getInstance().getSubscriptionLimits('basic');
+    const trialEligible = await SubscriptionService.getInstance().isTrialEligible(userId);
 
     res.status(200).json({
       status: 'success',
       data: {
         subscription,
-        limits
+        limits,
+        trial: {
+          eligible: trialEligible,
+          days: trialEligible ? AppConfig.proTrialDays : 0,
+          endsAt: subscription?.trialEndsAt ?? null
+        },
+        discount: subscription?.discount ?? null
       }
     });
   });
@@ -131,16 +166,64 @@ export class SubscriptionController {
     }
 
     const usageStats = await SubscriptionService.getInstance().getUsageStats(userId, days);
+    const tokenTotals = await SubscriptionService.getInstance().getTokenTotals(userId, days);
+    const overage = await SubscriptionService.getInstance().getOverageSummary(userId);
 
     res.status(200).json({
       status: 'success',
       data: {
         usageStats,
+        tokenTotals,
+        overage,
         period: `${days} days`
       }
     });
   });
 
+  /**
+   * Opt in to or out of overage billing and set a monthly spend cap
+   * PUT /api/subscription/overage
+   */
+  static updateOverageSettings = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { enabled, monthlyCapUsd } = req.body;
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new ValidationError('enabled must be a boolean');
+    }
+    if (monthlyCapUsd !== undefined && monthlyCapUsd !== null
+      && (typeof monthlyCapUsd !== 'number' || !Number.isFinite(monthlyCapUsd) || monthlyCapUsd < 0)) {
+      throw new ValidationError('monthlyCapUsd must be a non-negative number, or null for no cap');
+    }
+    if (enabled === undefined && monthlyCapUsd === undefined) {
+      throw new ValidationError('Provide enabled and/or monthlyCapUsd');
+    }
+
+    const overage = await SubscriptionService.getInstance().updateOverageSettings(userId, {
+      ...(enabled !== undefined && { enabled }),
+      ...(monthlyCapUsd !== undefined && { monthlyCapUsd })
+    });
+
+    logger.info(`User ${userId} updated overage settings`);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Overage settings updated',
+      data: {
+        overage
+      }
+    });
+  });
+
   /**
    * Check message permission
    * GET /api/subscription/can-send
@@ -183,15 +266,22 @@ export class SubscriptionController {
             tier: 'basic',
             name: 'Basic Plan',
             dailyMessageLimit: basicLimits.dailyMessageLimit,
+            dailyTokenLimit: basicLimits.dailyTokenLimit,
             features: basicLimits.features,
+            allowedModels: basicLimits.allowedModels,
+            maxOutputTokens: basicLimits.maxOutputTokens,
             price: '$0/month'
           },
           {
             tier: 'pro',
             name: 'Pro Plan',
             dailyMessageLimit: proLimits.dailyMessageLimit,
+            dailyTokenLimit: proLimits.dailyTokenLimit,
             features: proLimits.features,
-            price: '$9.99/month'
+            allowedModels: proLimits.allowedModels,
+            maxOutputTokens: proLimits.maxOutputTokens,
+            price: '$9.99/month',
+            trialDays: AppConfig.proTrialDays
           }
         ]
       }
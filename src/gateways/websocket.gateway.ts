@@ -0,0 +1,329 @@
+import { Server as HttpServer, IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { JWTService } from '../services/jwt.service';
+import { SessionService } from '../services/session.service';
+import { ChatroomService } from '../services/chatroom.service';
+import { EventService, ChatroomEvent } from '../services/event.service';
+import { Logger } from '../utils/logger';
+
+interface ClientState {
+  userId: string;
+  sessionId?: string;
+  chatroomIds: Set<string>;
+  isAlive: boolean;
+}
+
+interface ClientMessage {
+  type: 'subscribe' | 'unsubscribe' | 'ping';
+  chatroomId?: string;
+}
+
+export class WebSocketGateway {
+  private static instance: WebSocketGateway;
+  private static readonly PATH = '/ws';
+  private static readonly HEARTBEAT_INTERVAL_MS = 30000;
+
+  private wss?: WebSocketServer;
+  private clients: Map<WebSocket, ClientState> = new Map();
+  private rooms: Map<string, Set<WebSocket>> = new Map();
+  private heartbeat?: NodeJS.Timeout;
+  private unsubscribeEvents?: () => Promise<void>;
+  private logger = Logger.getInstance();
+
+  private constructor() {}
+
+  static getInstance(): WebSocketGateway {
+    if (!WebSocketGateway.instance) {
+      WebSocketGateway.instance = new WebSocketGateway();
+    }
+    return WebSocketGateway.instance;
+  }
+
+  // Attach the WebSocket server to the HTTP server
+  async initialize(server: HttpServer): Promise<void> {
+    try {
+      this.wss = new WebSocketServer({ server, path: WebSocketGateway.PATH });
+
+      this.wss.on('connection', (socket: WebSocket, req: IncomingMessage) => {
+        void this.handleConnection(socket, req);
+      });
+
+      this.wss.on('error', (error: Error) => {
+        this.logger.error('WebSocket server error:', error);
+      });
+
+      // Fan out events published by any API instance or worker process
+      this.unsubscribeEvents = await EventService.subscribeAll((event) => this.dispatch(event));
+
+      this.heartbeat = setInterval(() => void this.checkHeartbeats(), WebSocketGateway.HEARTBEAT_INTERVAL_MS);
+
+      this.logger.info(`WebSocket gateway listening on ${WebSocketGateway.PATH}`);
+    } catch (error) {
+      this.logger.error('Failed to initialize WebSocket gateway:', error);
+      throw error;
+    }
+  }
+
+  // Authenticate a new connection with the same JWT used by the REST API
+  private async handleConnection(socket: WebSocket, req: IncomingMessage): Promise<void> {
+    const token = this.extractToken(req);
+
+    if (!token) {
+      socket.close(4401, 'No token provided');
+      return;
+    }
+
+    let state: ClientState;
+    try {
+      const decoded = JWTService.verifyToken(token);
+      // Tokens without a session cannot be revoked, so they are not accepted
+      if (!decoded.sessionId) {
+        socket.close(4401, 'Session has expired; please sign in again');
+        return;
+      }
+      state = {
+        userId: decoded.userId,
+        sessionId: decoded.sessionId,
+        chatroomIds: new Set(),
+        isAlive: true,
+      };
+    } catch (error) {
+      socket.close(4401, 'Invalid or expired token');
+      return;
+    }
+
+    try {
+      if (state.sessionId && await SessionService.isSessionRevoked(state.sessionId)) {
+        socket.close(4401, 'Session has been revoked');
+        return;
+      }
+    } catch (error) {
+      this.logger.error('WebSocket session check failed:', error);
+      socket.close(1011, 'Session check failed');
+      return;
+    }
+
+    this.clients.set(socket, state);
+
+    socket.on('pong', () => {
+      state.isAlive = true;
+    });
+
+    socket.on('message', (raw: RawData) => {
+      void this.handleMessage(socket, state, raw);
+    });
+
+    socket.on('close', () => {
+      this.removeClient(socket);
+    });
+
+    socket.on('error', (error: Error) => {
+      this.logger.error(`WebSocket error for user ${state.userId}:`, error);
+    });
+
+    this.send(socket, { type: 'connected', userId: state.userId });
+    this.logger.info(`WebSocket client connected: ${state.userId}`);
+  }
+
+  // Read the token from the Authorization header or the `token` query parameter
+  private extractToken(req: IncomingMessage): string | null {
+    const headerToken = JWTService.extractBearerToken(req.headers.authorization);
+    if (headerToken) {
+      return headerToken;
+    }
+
+    const url = new URL(req.url || '', 'http://localhost');
+    return url.searchParams.get('token');
+  }
+
+  private async handleMessage(socket: WebSocket, state: ClientState, raw: RawData): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw.toString()) as ClientMessage;
+    } catch (error) {
+      this.send(socket, { type: 'error', message: 'Invalid message format' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'subscribe':
+        await this.subscribe(socket, state, message.chatroomId);
+        break;
+
+      case 'unsubscribe':
+        this.unsubscribe(socket, state, message.chatroomId);
+        break;
+
+      case 'ping':
+        this.send(socket, { type: 'pong' });
+        break;
+
+      default:
+        this.send(socket, { type: 'error', message: 'Unknown message type' });
+    }
+  }
+
+  private async subscribe(socket: WebSocket, state: ClientState, chatroomId?: string): Promise<void> {
+    if (!chatroomId) {
+      this.send(socket, { type: 'error', message: 'Chatroom ID is required' });
+      return;
+    }
+
+    try {
+      // Ensure user owns this chatroom
+      await ChatroomService.getOwnedChatroom(chatroomId, state.userId);
+    } catch (error) {
+      this.send(socket, { type: 'error', chatroomId, message: 'Chatroom not found' });
+      return;
+    }
+
+    // The socket may have closed during the ownership check; its cleanup has already run
+    if (socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    state.chatroomIds.add(chatroomId);
+
+    let room = this.rooms.get(chatroomId);
+    if (!room) {
+      room = new Set();
+      this.rooms.set(chatroomId, room);
+    }
+    room.add(socket);
+
+    this.send(socket, { type: 'subscribed', chatroomId });
+  }
+
+  private unsubscribe(socket: WebSocket, state: ClientState, chatroomId?: string): void {
+    if (!chatroomId) {
+      this.send(socket, { type: 'error', message: 'Chatroom ID is required' });
+      return;
+    }
+
+    state.chatroomIds.delete(chatroomId);
+    this.leaveRoom(socket, chatroomId);
+
+    this.send(socket, { type: 'unsubscribed', chatroomId });
+  }
+
+  // Deliver an event to local sockets subscribed to its chatroom
+  private dispatch(event: ChatroomEvent): void {
+    const room = this.rooms.get(event.chatroomId);
+    if (!room) {
+      return;
+    }
+
+    for (const socket of room) {
+      const state = this.clients.get(socket);
+
+      // Chatrooms are private, so only the owner receives events
+      if (!state || state.userId !== event.userId) {
+        continue;
+      }
+
+      this.send(socket, {
+        type: 'event',
+        event: event.type,
+        chatroomId: event.chatroomId,
+        data: event.data,
+        timestamp: event.timestamp,
+      });
+    }
+  }
+
+  private send(socket: WebSocket, payload: Record<string, unknown>): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  }
+
+  private leaveRoom(socket: WebSocket, chatroomId: string): void {
+    const room = this.rooms.get(chatroomId);
+    if (!room) {
+      return;
+    }
+
+    room.delete(socket);
+    if (room.size === 0) {
+      this.rooms.delete(chatroomId);
+    }
+  }
+
+  private removeClient(socket: WebSocket): void {
+    const state = this.clients.get(socket);
+    if (!state) {
+      return;
+    }
+
+    for (const chatroomId of state.chatroomIds) {
+      this.leaveRoom(socket, chatroomId);
+    }
+
+    this.clients.delete(socket);
+    this.logger.info(`WebSocket client disconnected: ${state.userId}`);
+  }
+
+  // Terminate sockets that did not answer the previous ping or whose session was revoked
+  private async checkHeartbeats(): Promise<void> {
+    for (const [socket, state] of this.clients) {
+      if (!state.isAlive) {
+        socket.terminate();
+        this.removeClient(socket);
+        continue;
+      }
+
+      if (state.sessionId && await this.isRevoked(state.sessionId)) {
+        socket.close(4401, 'Session has been revoked');
+        this.removeClient(socket);
+        continue;
+      }
+
+      state.isAlive = false;
+      socket.ping();
+    }
+  }
+
+  private async isRevoked(sessionId: string): Promise<boolean> {
+    try {
+      return await SessionService.isSessionRevoked(sessionId);
+    } catch (error) {
+      this.logger.error(`WebSocket session check failed for ${sessionId}:`, error);
+      return false;
+    }
+  }
+
+  // Get gateway statistics
+  getStats(): any {
+    return {
+      connections: this.clients.size,
+      chatrooms: this.rooms.size,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      if (this.heartbeat) {
+        clearInterval(this.heartbeat);
+      }
+
+      if (this.unsubscribeEvents) {
+        await this.unsubscribeEvents();
+      }
+
+      for (const socket of this.clients.keys()) {
+        socket.close(1001, 'Server shutting down');
+      }
+      this.clients.clear();
+      this.rooms.clear();
+
+      if (this.wss) {
+        await new Promise<void>((resolve) => this.wss!.close(() => resolve()));
+      }
+
+      this.logger.info('WebSocket gateway shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down WebSocket gateway:', error);
+    }
+  }
+}
@@ -10,6 +10,7 @@ import { DatabaseConfig } from './config/database.config';
 import { RedisConfig } from './config/redis.config';
 import { QueueService } from './services/queue.service';
 import { WorkerManager } from './workers/worker.manager';
+import { WebSocketGateway } from './gateways/websocket.gateway';
 import { errorHandler } from './middleware/error.middleware';
 import { notFoundHandler } from './middleware/notFound.middleware';
 import { rateLimiter } from './middleware/rateLimiter.middleware';
@@ -44,6 +45,8 @@ app.use(morgan(process.env.LOG_FORMAT || 'combined', {
 }));
 
 // Body parsing middleware
+// Stripe signs the exact bytes it sends, so its webhook keeps the raw body
+app.use('/api/webhook/stripe', express.raw({ type: 'application/json', limit: '1mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -103,15 +106,22 @@ const startServer = async () => {
     await workerManager.initialize();
     logger.info('Worker manager initialized');
 
+    // Expire payment grace periods and report overage usage on a schedule
+    await queueService.scheduleSubscriptionMaintenance();
+
     // Start the server
     const port = AppConfig.port;
-    app.listen(port, () => {
+    const server = app.listen(port, () => {
       logger.info(`🚀 Server running on port ${port}`);
       logger.info(`📡 API available at http://localhost:${port}/api`);
       logger.info(`🔍 Health check at http://localhost:${port}/health`);
       logger.info(`🚀 Queue dashboard at http://localhost:${port}/api/queue/overview`);
       logger.info(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
     });
+
+    // Initialize WebSocket gateway on the same HTTP server
+    await WebSocketGateway.getInstance().initialize(server);
+    logger.info(`🔌 WebSocket gateway at ws://localhost:${port}/ws`);
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
@@ -122,7 +132,10 @@ const startServer = async () => {
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
   
-  // Shutdown workers and queues first
+  // Close live connections first
+  await WebSocketGateway.getInstance().shutdown();
+
+  // Shutdown workers and queues
   const workerManager = WorkerManager.getInstance();
   await workerManager.shutdown();
   
@@ -138,7 +151,10 @@ process.on('SIGTERM', async () => {
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
   
-  // Shutdown workers and queues first
+  // Close live connections first
+  await WebSocketGateway.getInstance().shutdown();
+
+  // Shutdown workers and queues
   const workerManager = WorkerManager.getInstance();
   await workerManager.shutdown();
   
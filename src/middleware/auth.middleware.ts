@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTService } from '../services/jwt.service';
+import { SessionService } from '../services/session.service';
+import { RoleService, UserRole } from '../services/role.service';
 import { AuthenticationError } from './error.middleware';
 
 // Extend Express Request interface to include user
@@ -9,6 +11,8 @@ declare global {
       user?: {
         id: string;
         mobileNumber: string;
+        sessionId?: string;
+        role?: UserRole;
       };
     }
   }
@@ -27,15 +31,55 @@ export async function simpleAuthenticate(req: Request, res: Response, next: Next
 
     // Verify token
     const decoded = JWTService.verifyToken(token);
+
+    // Tokens issued before sessions existed cannot be revoked, so they are no longer accepted
+    if (!decoded.sessionId) {
+      res.status(401).json({ status: 'error', message: 'Session has expired; please sign in again' });
+      return;
+    }
+
+    // Reject access tokens of sessions that were logged out or revoked
+    if (await SessionService.isSessionRevoked(decoded.sessionId)) {
+      res.status(401).json({ status: 'error', message: 'Session has been revoked' });
+      return;
+    }
     
     // Attach minimal user info from token
     req.user = {
       id: decoded.userId,
       mobileNumber: decoded.mobileNumber,
+      sessionId: decoded.sessionId,
     };
 
     next();
   } catch (error) {
     res.status(401).json({ status: 'error', message: 'Invalid or expired token' });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Allow only users holding at least the given role. Runs after simpleAuthenticate;
+ * the role is read from the database so revocations take effect immediately.
+ */
+export function requireRole(role: UserRole) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required' });
+      return;
+    }
+
+    try {
+      const currentRole = await RoleService.getUserRole(req.user.id);
+
+      if (!currentRole || !RoleService.hasRole(currentRole, role)) {
+        res.status(403).json({ status: 'error', message: 'Insufficient permissions' });
+        return;
+      }
+
+      req.user.role = currentRole;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
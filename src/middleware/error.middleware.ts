@@ -160,6 +160,9 @@ export const errorHandler = (
   if (error.name === 'JsonWebTokenError') err = handleJWTError();
   if (error.name === 'TokenExpiredError') err = handleJWTExpiredError();
 
+  // Upload errors (file too large, unexpected field, ...)
+  if (error.name === 'MulterError') err = new ValidationError(error.message);
+
   // Prisma errors
   if (error.code === 'P2002') {
     err = new ConflictError('Unique constraint violation');
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { AppConfig } from '../config/app.config';
+
+const importDir = path.resolve(AppConfig.importDir);
+fs.mkdirSync(importDir, { recursive: true });
+
+/**
+ * Accept a single conversation export file in the "file" field.
+ * Files go to disk so the import job can read them without holding them in Redis.
+ */
+export const importUpload = multer({
+  dest: importDir,
+  limits: {
+    fileSize: AppConfig.importMaxBytes,
+    files: 1,
+  },
+}).single('file');
@@ -110,7 +110,107 @@ export const validateVerifyOTP: ValidationChain[] = [
   body('purpose')
     .optional()
     .isIn(['login', 'password_reset'])
-    .withMessage('Purpose must be either "login" or "password_reset"')
+    .withMessage('Purpose must be either "login" or "password_reset"'),
+
+  body('deviceName')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Device name must be between 1-100 characters')
+];
+
+/**
+ * Validation rules for an email address
+ */
+export const validateEmail: ValidationChain[] = [
+  body('email')
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Invalid email address')
+    .isLength({ max: 254 })
+    .withMessage('Email must be at most 254 characters')
+];
+
+/**
+ * Validation rules for an emailed code
+ */
+export const validateEmailCode: ValidationChain[] = [
+  body('code')
+    .notEmpty()
+    .withMessage('Code is required')
+    .isLength({ min: 6, max: 6 })
+    .withMessage('Code must be exactly 6 digits')
+    .matches(/^[0-9]+$/)
+    .withMessage('Code must contain only digits')
+];
+
+/**
+ * Validation rules for email OTP verification
+ */
+export const validateVerifyEmailOTP: ValidationChain[] = [
+  ...validateEmail,
+  ...validateEmailCode,
+
+  body('deviceName')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Device name must be between 1-100 characters')
+];
+
+/**
+ * Validation rules for a magic link or email confirmation token
+ */
+export const validateEmailToken: ValidationChain[] = [
+  body('token')
+    .notEmpty()
+    .withMessage('Token is required')
+    .isString()
+    .isLength({ max: 256 })
+    .withMessage('Invalid token'),
+
+  body('deviceName')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Device name must be between 1-100 characters')
+];
+
+/**
+ * Validation rules for refreshing an access token
+ */
+export const validateRefreshToken: ValidationChain[] = [
+  body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required')
+    .isString()
+    .isLength({ max: 256 })
+    .withMessage('Invalid refresh token')
+];
+
+/**
+ * Validation rules for a TOTP or recovery code
+ */
+export const validateTwoFactorCode: ValidationChain[] = [
+  body('code')
+    .notEmpty()
+    .withMessage('Two-factor code is required')
+    .isString()
+    .isLength({ min: 6, max: 20 })
+    .withMessage('Two-factor code must be an authenticator code or a recovery code')
+];
+
+/**
+ * Validation rules for the second login step
+ */
+export const validateTwoFactorLogin: ValidationChain[] = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Challenge token is required')
+    .isJWT()
+    .withMessage('Invalid challenge token'),
+  ...validateTwoFactorCode
 ];
 
 /**
@@ -255,7 +355,7 @@ export const sanitizeMobileNumber = (req: Request, res: Response, next: NextFunc
  * Sanitize string inputs (trim whitespace)
  */
 export const sanitizeStrings = (req: Request, res: Response, next: NextFunction): void => {
-  const fieldsToSanitize = ['name', 'content', 'description'];
+  const fieldsToSanitize = ['name', 'content', 'description', 'code'];
   
   fieldsToSanitize.forEach(field => {
     if (req.body[field] && typeof req.body[field] === 'string') {
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { simpleAuthenticate, requireRole } from '../middleware/auth.middleware';
+import { rateLimiter } from '../middleware/rateLimiter.middleware';
+import { allowedFields } from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Apply authentication to all admin routes
+router.use(simpleAuthenticate);
+
+// Apply rate limiting
+router.use(rateLimiter);
+
+// User management for support staff and admins
+router.get('/users', requireRole('support'), AdminController.searchUsers);
+router.get('/users/:id', requireRole('support'), AdminController.getUser);
+
+router.post('/users/:id/suspend',
+  requireRole('support'),
+  allowedFields(['reason']),
+  AdminController.suspendUser
+);
+
+router.post('/users/:id/unsuspend', requireRole('support'), AdminController.unsuspendUser);
+router.post('/users/:id/logout', requireRole('support'), AdminController.forceLogout);
+
+router.put('/users/:id/tier',
+  requireRole('support'),
+  allowedFields(['tier']),
+  AdminController.adjustTier
+);
+
+router.post('/users/:id/reset-usage', requireRole('support'), AdminController.resetDailyUsage);
+
+// Role management
+router.put('/users/:id/role',
+  requireRole('admin'),
+  allowedFields(['role']),
+  AdminController.setUserRole
+);
+
+// Stripe webhook events
+router.get('/webhooks', requireRole('admin'), AdminController.listWebhookEvents);
+router.post('/webhooks/replay-failed', requireRole('admin'), AdminController.replayFailedWebhookEvents);
+router.post('/webhooks/:id/replay', requireRole('admin'), AdminController.replayWebhookEvent);
+
+export default router;
@@ -7,6 +7,13 @@ import {
   validateVerifyOTP,
   validateChangePassword,
   validatePasswordReset,
+  validateRefreshToken,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateEmail,
+  validateEmailCode,
+  validateVerifyEmailOTP,
+  validateEmailToken,
   sanitizeMobileNumber,
   sanitizeStrings,
   allowedFields,
@@ -37,7 +44,7 @@ router.post('/send-otp',
 );
 
 router.post('/verify-otp', 
-  allowedFields(['mobileNumber', 'otpCode', 'purpose']),
+  allowedFields(['mobileNumber', 'otpCode', 'purpose', 'deviceName']),
   validate(validateVerifyOTP),
   AuthController.verifyOTP
 );
@@ -60,12 +67,58 @@ router.post('/check-mobile',
   AuthController.checkMobile
 );
 
+router.post('/check-email', 
+  allowedFields(['email']),
+  validate(validateEmail),
+  AuthController.checkEmail
+);
+
 router.post('/otp-status', 
   allowedFields(['mobileNumber', 'purpose']),
   validate(validateSendOTP),
   AuthController.getOTPStatus
 );
 
+// Email login: a code and an equivalent magic link sent to a verified address
+router.post('/email/send-otp', 
+  allowedFields(['email']),
+  validate(validateEmail),
+  AuthController.sendEmailOTP
+);
+
+router.post('/email/verify-otp', 
+  allowedFields(['email', 'code', 'deviceName']),
+  validate(validateVerifyEmailOTP),
+  AuthController.verifyEmailOTP
+);
+
+router.post('/email/magic-link', 
+  allowedFields(['token', 'deviceName']),
+  validate(validateEmailToken),
+  AuthController.verifyMagicLink
+);
+
+// Confirmation links may be opened on a device that is not signed in
+router.post('/email/confirm', 
+  allowedFields(['token']),
+  validate(validateEmailToken),
+  AuthController.confirmEmail
+);
+
+// Second login step when two-factor authentication is enabled
+router.post('/2fa/verify', 
+  allowedFields(['challengeToken', 'code', 'deviceName']),
+  validate(validateTwoFactorLogin),
+  AuthController.verifyTwoFactorLogin
+);
+
+// Refresh works with an expired access token, so it takes the refresh token instead
+router.post('/refresh', 
+  allowedFields(['refreshToken']),
+  validate(validateRefreshToken),
+  AuthController.refreshToken
+);
+
 // Protected routes (authentication required)
 router.post('/change-password', 
   simpleAuthenticate,
@@ -76,12 +129,65 @@ router.post('/change-password',
 
 router.post('/logout', 
   simpleAuthenticate,
+  allowedFields(['refreshToken']),
   AuthController.logout
 );
 
-router.post('/refresh', 
+router.post('/logout-all', 
   simpleAuthenticate,
-  AuthController.refreshToken
+  AuthController.logoutAll
+);
+
+// Email address management
+router.post('/email', 
+  simpleAuthenticate,
+  allowedFields(['email']),
+  validate(validateEmail),
+  AuthController.addEmail
+);
+
+router.post('/email/verify', 
+  simpleAuthenticate,
+  allowedFields(['code']),
+  validate(validateEmailCode),
+  AuthController.verifyEmail
+);
+
+router.delete('/email', 
+  simpleAuthenticate,
+  AuthController.removeEmail
+);
+
+// Two-factor authentication (TOTP authenticator apps)
+router.get('/2fa', 
+  simpleAuthenticate,
+  AuthController.getTwoFactorStatus
+);
+
+router.post('/2fa/setup', 
+  simpleAuthenticate,
+  AuthController.setupTwoFactor
+);
+
+router.post('/2fa/enable', 
+  simpleAuthenticate,
+  allowedFields(['code']),
+  validate(validateTwoFactorCode),
+  AuthController.enableTwoFactor
+);
+
+router.post('/2fa/disable', 
+  simpleAuthenticate,
+  allowedFields(['code']),
+  validate(validateTwoFactorCode),
+  AuthController.disableTwoFactor
+);
+
+router.post('/2fa/recovery-codes', 
+  simpleAuthenticate,
+  allowedFields(['code']),
+  validate(validateTwoFactorCode),
+  AuthController.regenerateRecoveryCodes
 );
 
 router.get('/history', 
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { CacheController } from '../controllers/cache.controller';
-import { simpleAuthenticate } from '../middleware/auth.middleware';
+import { simpleAuthenticate, requireRole } from '../middleware/auth.middleware';
 import { rateLimiter } from '../middleware/rateLimiter.middleware';
 
 const router = Router();
 
-// Apply authentication to all cache routes
+// Apply authentication to all cache routes; managing the cache is for admins only
 router.use(simpleAuthenticate);
+router.use(requireRole('admin'));
 
 // Apply rate limiting
 router.use(rateLimiter);
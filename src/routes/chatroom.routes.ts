@@ -4,6 +4,7 @@ import { MessageController } from '../controllers/message.controller';
 import { simpleAuthenticate } from '../middleware/auth.middleware';
 import { handleValidationErrors } from '../middleware/validation.middleware';
 import { rateLimiter } from '../middleware/rateLimiter.middleware';
+import { importUpload } from '../middleware/upload.middleware';
 
 const router = Router();
 
@@ -18,13 +19,35 @@ router.post('/', ChatroomController.createChatroom);
 router.get('/', ChatroomController.getChatrooms);
 router.get('/stats', ChatroomController.getChatroomStats);
 router.get('/search', ChatroomController.searchChatrooms);
+
 router.get('/:id', ChatroomController.getChatroomById);
 router.put('/:id', ChatroomController.updateChatroom);
 router.delete('/:id', ChatroomController.deleteChatroom);
 
+// Import conversations from ChatGPT or Gemini export files
+router.post('/import', importUpload, ChatroomController.importConversations);
+router.get('/import/:jobId', ChatroomController.getImportStatus);
+
+// Download a conversation
+router.get('/:id/export', ChatroomController.exportChatroom);
+
+// Fork a chatroom at a message
+router.post('/:id/fork', ChatroomController.forkChatroom);
+
 // Send message to chatroom with automatic Gemini processing
 router.post('/:id/send-message', ChatroomController.sendMessageToChatroom);
 
+// Stream AI replies for a chatroom via Server-Sent Events
+router.get('/:id/stream', ChatroomController.streamChatroom);
+
+// Look up or cancel queued Gemini jobs
+router.get('/:id/jobs/:jobId', ChatroomController.getGeminiJobStatus);
+router.delete('/:id/jobs/:jobId', ChatroomController.cancelGeminiJob);
+
+// Conversation memory: token budget, context window and rolling summary
+router.get('/:id/context', ChatroomController.getConversationContext);
+router.post('/:id/context/summary', ChatroomController.refreshConversationSummary);
+
 // Message routes within chatrooms
 router.post('/:chatroomId/messages', MessageController.sendMessage);
 router.get('/:chatroomId/messages', MessageController.getChatroomMessages);
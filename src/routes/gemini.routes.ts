@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { GeminiController } from '../controllers/gemini.controller';
-import { simpleAuthenticate } from '../middleware/auth.middleware';
+import { simpleAuthenticate, requireRole } from '../middleware/auth.middleware';
 import { rateLimiter } from '../middleware/rateLimiter.middleware';
 
 const router = Router();
@@ -8,7 +8,11 @@ const router = Router();
 // Apply rate limiting to prevent abuse
 router.use(rateLimiter);
 
-// Add a public test endpoint (temporarily for testing)
+// Gemini diagnostics expose configuration and spend tokens, so they are for admins only
+router.use(simpleAuthenticate);
+router.use(requireRole('admin'));
+
+// Gemini API management endpoints
 router.get('/test-public', (req, res) => {
   res.json({
     success: true,
@@ -16,11 +20,6 @@ router.get('/test-public', (req, res) => {
     timestamp: new Date().toISOString(),
   });
 });
-
-// Apply authentication middleware to protected Gemini routes
-router.use(simpleAuthenticate);
-
-// Gemini API management endpoints
 router.get('/health', GeminiController.healthCheck);
 router.get('/config', GeminiController.getConfiguration);
 router.get('/model-info', GeminiController.getModelInfo);
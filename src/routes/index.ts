@@ -7,6 +7,7 @@ import webhookRoutes from './webhook.routes';
 import cacheRoutes from './cache.routes';
 import queueRoutes from './queue.routes';
 import geminiRoutes from './gemini.routes';
+import adminRoutes from './admin.routes';
 
 const router = Router();
 
@@ -28,5 +29,6 @@ router.use('/webhook', webhookRoutes);
 router.use('/cache', cacheRoutes);
 router.use('/queue', queueRoutes);
 router.use('/gemini', geminiRoutes);
+router.use('/admin', adminRoutes);
 
 export default router; 
\ No newline at end of file
@@ -13,6 +13,12 @@ router.use(rateLimiter);
 
 // Individual message routes
 router.get('/:id', MessageController.getMessageById);
+router.put('/:id', MessageController.editMessage);
 router.delete('/:id', MessageController.deleteMessage);
 
+// Regenerate replies and switch between message versions
+router.post('/:id/regenerate', MessageController.regenerateMessage);
+router.get('/:id/versions', MessageController.getMessageVersions);
+router.post('/:id/activate', MessageController.activateMessageVersion);
+
 export default router; 
\ No newline at end of file
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { QueueController } from '../controllers/queue.controller';
-import { simpleAuthenticate } from '../middleware/auth.middleware';
+import { simpleAuthenticate, requireRole } from '../middleware/auth.middleware';
 import { rateLimiter } from '../middleware/rateLimiter.middleware';
 
 const router = Router();
 
-// Apply authentication to all queue routes
+// Apply authentication to all queue routes; managing the queue is for admins only
 router.use(simpleAuthenticate);
+router.use(requireRole('admin'));
 
 // Apply rate limiting
 router.use(rateLimiter);
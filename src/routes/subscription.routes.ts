@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { SubscriptionController } from '../controllers/subscription.controller';
 import { simpleAuthenticate } from '../middleware/auth.middleware';
+import { allowedFields } from '../middleware/validation.middleware';
 
 const router = Router();
 
@@ -19,8 +20,20 @@ router.get('/can-send', SubscriptionController.checkMessagePermission);
 // Get usage statistics
 router.get('/usage', SubscriptionController.getUsageStats);
 
-// Subscribe to Pro tier
-router.post('/pro', SubscriptionController.subscribeToPro);
+// Start Stripe Checkout for the Pro tier, optionally with a promo code
+router.post('/checkout', allowedFields(['promoCode']), SubscriptionController.createCheckout);
+
+// Older clients still call /pro; it now starts checkout as well
+router.post('/pro', allowedFields(['promoCode']), SubscriptionController.createCheckout);
+
+// Manage billing in the Stripe Customer Portal
+router.post('/portal', SubscriptionController.openBillingPortal);
+
+// Opt in to overage billing and set a monthly spend cap
+router.put('/overage',
+  allowedFields(['enabled', 'monthlyCapUsd']),
+  SubscriptionController.updateOverageSettings
+);
 
 // Cancel subscription
 router.post('/cancel', SubscriptionController.cancelSubscription);
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { simpleAuthenticate } from '../middleware/auth.middleware';
 import { rateLimiter } from '../middleware/rateLimiter.middleware';
 import { AuthController } from '@/controllers/auth.controller';
+import { ExportController } from '../controllers/export.controller';
+import { SessionController } from '../controllers/session.controller';
 
 const router = Router();
 
@@ -15,4 +17,13 @@ router.get('/me', AuthController.getProfile);
 router.put('/profile', AuthController.updateProfile);
 router.delete('/account', AuthController.deleteAccount);
 
+// Logged-in devices
+router.get('/sessions', SessionController.getSessions);
+router.delete('/sessions/:id', SessionController.revokeSession);
+
+// Account-wide data export (zip archive built by a background job)
+router.post('/exports', ExportController.requestAccountExport);
+router.get('/exports/:jobId', ExportController.getAccountExportStatus);
+router.get('/exports/:jobId/download', ExportController.downloadAccountExport);
+
 export default router; 
\ No newline at end of file
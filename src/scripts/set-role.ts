@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+import { DatabaseConfig } from '../config/database.config';
+import { RoleService, USER_ROLES } from '../services/role.service';
+import { OTPService } from '../services/otp.service';
+import { Logger } from '../utils/logger';
+
+dotenv.config();
+
+const logger = Logger.getInstance();
+
+// Grant or revoke a role from the command line, e.g. to appoint the first admin:
+//   npm run user:role -- 9876543210 admin
+async function main(): Promise<void> {
+  const [mobileNumber, role] = process.argv.slice(2);
+
+  if (!mobileNumber || !RoleService.isRole(role)) {
+    throw new Error(`Usage: npm run user:role -- <mobileNumber> <${USER_ROLES.join('|')}>`);
+  }
+
+  await DatabaseConfig.initialize();
+
+  const user = await DatabaseConfig.getClient().user.findUnique({
+    where: { mobileNumber: OTPService.formatMobileNumber(mobileNumber) },
+    select: { id: true }
+  });
+  if (!user) {
+    throw new Error(`No user with mobile number ${mobileNumber}`);
+  }
+
+  const result = await RoleService.setUserRole(user.id, role);
+  logger.info(result.changed
+    ? `Role of ${mobileNumber} changed from ${result.previousRole} to ${result.role}`
+    : `${mobileNumber} already has role ${result.role}`);
+}
+
+main()
+  .then(async () => {
+    await DatabaseConfig.disconnect();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    logger.error('Failed to set role:', error);
+    await DatabaseConfig.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import { DatabaseConfig } from '../config/database.config';
+import { SubscriptionService, SubscriptionData, SubscriptionLimits, UsageData } from './subscription.service';
+import { AuthService, UserData } from './auth.service';
+
+export interface AdminUserSummary {
+  id: string;
+  mobileNumber: string;
+  name: string | null;
+  email: string | null;
+  role: string;
+  subscriptionTier: string;
+  subscriptionStatus: string;
+  suspendedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface AdminUserPage {
+  users: AdminUserSummary[];
+  nextCursor: string | null;
+}
+
+export interface AdminUserDetail {
+  user: UserData;
+  subscription: SubscriptionData | null;
+  usage: {
+    dailyMessageCount: number;
+    limits: SubscriptionLimits;
+    recent: UsageData[];
+  };
+  counts: {
+    chatrooms: number;
+    activeSessions: number;
+  };
+}
+
+const SUMMARY_SELECT = {
+  id: true,
+  mobileNumber: true,
+  name: true,
+  email: true,
+  role: true,
+  subscriptionTier: true,
+  subscriptionStatus: true,
+  suspendedAt: true,
+  createdAt: true
+} satisfies Prisma.UserSelect;
+
+export class AdminService {
+  private static readonly USAGE_DAYS = 30;
+
+  /**
+   * Find users by mobile number, name or email, newest first, paginated by user ID
+   */
+  static async searchUsers(options: { query?: string; cursor?: string; limit?: number } = {}): Promise<AdminUserPage> {
+    const db = DatabaseConfig.getClient();
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+    const query = options.query?.trim();
+    const digits = query?.replace(/\D/g, '');
+
+    // Anything that looks like a phone number is matched on the digits alone
+    const where: Prisma.UserWhereInput = !query
+      ? {}
+      : digits && digits.length >= 3 && /^[\d\s+()-]+$/.test(query)
+        ? { mobileNumber: { contains: digits } }
+        : {
+            OR: [
+              { name: { contains: query, mode: 'insensitive' } },
+              { email: { contains: query.toLowerCase() } }
+            ]
+          };
+
+    const users = await db.user.findMany({
+      where,
+      select: SUMMARY_SELECT,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+    });
+
+    const hasMore = users.length > limit;
+    const page = hasMore ? users.slice(0, limit) : users;
+
+    return {
+      users: page,
+      nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null
+    };
+  }
+
+  /**
+   * Everything support needs about one user: profile, subscription, usage and counts
+   */
+  static async getUserDetail(userId: string): Promise<AdminUserDetail> {
+    const db = DatabaseConfig.getClient();
+    const subscriptionService = SubscriptionService.getInstance();
+
+    const user = await AuthService.getUserById(userId);
+
+    const [subscription, recent, chatrooms, activeSessions] = await Promise.all([
+      subscriptionService.getSubscription(userId),
+      subscriptionService.getUsageStats(userId, this.USAGE_DAYS),
+      db.chatroom.count({ where: { userId } }),
+      db.session.count({ where: { userId, revokedAt: null, expiresAt: { gt: new Date() } } })
+    ]);
+
+    return {
+      user,
+      subscription,
+      usage: {
+        dailyMessageCount: user.dailyMessageCount,
+        limits: subscriptionService.getSubscriptionLimits(user.subscriptionTier as 'basic' | 'pro'),
+        recent
+      },
+      counts: {
+        chatrooms,
+        activeSessions
+      }
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { AuthEvent, Prisma } from '@prisma/client';
+import { AppConfig } from '../config/app.config';
+import { DatabaseConfig } from '../config/database.config';
+import { CacheService } from './cache.service';
+import { Logger } from '../utils/logger';
+
+export type AuthEventType =
+  | 'signup'
+  | 'otp_sent'
+  | 'otp_verified'
+  | 'otp_failed'
+  | 'login'
+  | 'logout'
+  | 'password_change'
+  | 'password_reset'
+  | 'account_deleted'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'two_factor_failed'
+  | 'recovery_codes_regenerated'
+  | 'email_verified'
+  | 'email_removed'
+  | 'role_granted'
+  | 'role_revoked'
+  | 'account_suspended'
+  | 'account_unsuspended'
+  | 'sessions_revoked'
+  | 'tier_changed'
+  | 'usage_reset';
+
+export interface AuthEventInput {
+  type: AuthEventType;
+  outcome: 'success' | 'failure';
+  userId?: string | undefined;
+  mobileNumber?: string | undefined;
+  reason?: string | undefined;
+  sessionId?: string | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+  metadata?: Prisma.InputJsonObject;
+}
+
+export interface AuthEventPage {
+  events: AuthEvent[];
+  nextCursor: string | null;
+}
+
+export class AuditService {
+  private static logger = Logger.getInstance();
+  private static readonly PRUNE_LOCK_KEY = 'auth-events:pruned';
+  private static readonly PRUNE_INTERVAL_SECONDS = 60 * 60;
+
+  /**
+   * Record an authentication event. Auditing never fails the request it describes.
+   */
+  static async recordAuthEvent(event: AuthEventInput): Promise<void> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      // Attribute failed attempts on a known mobile number to its user
+      let userId = event.userId;
+      if (!userId && event.mobileNumber) {
+        const user = await db.user.findUnique({
+          where: { mobileNumber: event.mobileNumber },
+          select: { id: true }
+        });
+        userId = user?.id;
+      }
+
+      await db.authEvent.create({
+        data: {
+          type: event.type,
+          outcome: event.outcome,
+          userId: userId ?? null,
+          mobileNumber: event.mobileNumber ?? null,
+          reason: event.reason?.slice(0, 500) ?? null,
+          sessionId: event.sessionId ?? null,
+          ipAddress: event.ipAddress ?? null,
+          userAgent: event.userAgent?.slice(0, 512) ?? null,
+          ...(event.metadata && { metadata: event.metadata })
+        }
+      });
+
+      await this.pruneExpiredAuthEvents();
+    } catch (error) {
+      this.logger.error(`Failed to record auth event ${event.type}:`, error);
+    }
+  }
+
+  /**
+   * A user's authentication history, newest first, paginated by event ID
+   */
+  static async getAuthHistory(userId: string, options: { cursor?: string; limit?: number } = {}): Promise<AuthEventPage> {
+    const db = DatabaseConfig.getClient();
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+    const cutoff = this.getRetentionCutoff();
+
+    const events = await db.authEvent.findMany({
+      where: {
+        userId,
+        ...(cutoff && { createdAt: { gte: cutoff } })
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+    });
+
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      events: page,
+      nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null
+    };
+  }
+
+  /**
+   * Delete events older than the retention period, at most once an hour across instances
+   */
+  static async pruneExpiredAuthEvents(): Promise<number> {
+    const cutoff = this.getRetentionCutoff();
+    if (!cutoff) {
+      return 0;
+    }
+
+    if (await CacheService.exists(this.PRUNE_LOCK_KEY)) {
+      return 0;
+    }
+    await CacheService.set(this.PRUNE_LOCK_KEY, '1', this.PRUNE_INTERVAL_SECONDS);
+
+    const db = DatabaseConfig.getClient();
+    const { count } = await db.authEvent.deleteMany({
+      where: { createdAt: { lt: cutoff } }
+    });
+
+    if (count > 0) {
+      this.logger.info(`Pruned ${count} auth events older than ${AppConfig.authEventRetentionDays} days`);
+    }
+    return count;
+  }
+
+  private static getRetentionCutoff(): Date | null {
+    if (AppConfig.authEventRetentionDays <= 0) {
+      return null;
+    }
+    return new Date(Date.now() - AppConfig.authEventRetentionDays * 24 * 60 * 60 * 1000);
+  }
+}
@@ -2,27 +2,46 @@ import bcrypt from 'bcryptjs';
 import { User } from '@prisma/client';
 import { DatabaseConfig } from '../config/database.config';
 import { RedisConfig } from '../config/redis.config';
-import { JWTService } from './jwt.service';
 import { OTPService } from './otp.service';
+import { SessionService, ClientInfo, TokenPair } from './session.service';
+import { TwoFactorService, TwoFactorMethod } from './twoFactor.service';
+import { EmailAuthService } from './emailAuth.service';
+import { JWTService } from './jwt.service';
 import { 
   ValidationError, 
   AuthenticationError, 
   ConflictError, 
   NotFoundError,
-  RateLimitError 
+  RateLimitError,
+  AuthorizationError
 } from '../middleware/error.middleware';
 import { Logger } from '../utils/logger';
 
-interface AuthResult {
-  user: Omit<User, 'passwordHash'>;
-  token: string;
-  expiresAt: Date;
+type PublicUser = Omit<User, 'passwordHash' | 'twoFactorSecret'>;
+
+interface AuthResult extends TokenPair {
+  user: PublicUser;
+  twoFactorRequired: false;
+}
+
+interface TwoFactorChallenge {
+  user: Pick<User, 'id' | 'mobileNumber'>;
+  twoFactorRequired: true;
+  challengeToken: string;
+  challengeExpiresAt: Date;
 }
 
-interface UserData {
+export type LoginResult = AuthResult | TwoFactorChallenge;
+
+export interface UserData {
   id: string;
   mobileNumber: string;
+  email: string | null;
+  emailVerifiedAt: Date | null;
   name: string | null;
+  role: string;
+  suspendedAt: Date | null;
+  suspendedReason: string | null;
   subscriptionTier: string;
   subscriptionStatus: string;
   stripeCustomerId: string | null;
@@ -81,7 +100,7 @@ export class AuthService {
       this.logger.info(`User registered successfully: ${user.id}`);
 
       // Return user without password hash
-      const { passwordHash: _, ...userWithoutPassword } = user;
+      const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = user;
       return {
         user: {
           ...userWithoutPassword,
@@ -113,6 +132,9 @@ export class AuthService {
         throw new RateLimitError('Too many OTP requests. Please try again later.');
       }
 
+      // No new codes while the number is locked out after failed guesses
+      await OTPService.assertNotLockedOut(formattedMobile, purpose);
+
       // For login, check if user exists
       if (purpose === 'login') {
         const db = DatabaseConfig.getClient();
@@ -123,6 +145,7 @@ export class AuthService {
         if (!user) {
           throw new NotFoundError('User not found with this mobile number');
         }
+        this.assertNotSuspended(user);
       }
 
       // Generate OTP
@@ -131,7 +154,7 @@ export class AuthService {
       this.logger.info(`OTP sent for ${formattedMobile} (${purpose})`);
 
       return {
-        otpCode, // In production, this would not be returned
+        otpCode, // Only echoed to the client in development
         expiresAt,
         message: `OTP sent successfully to ${formattedMobile}`
       };
@@ -147,8 +170,9 @@ export class AuthService {
   static async verifyOTP(
     mobileNumber: string, 
     otpCode: string, 
-    purpose: 'login' | 'password_reset' = 'login'
-  ): Promise<AuthResult> {
+    purpose: 'login' | 'password_reset' = 'login',
+    client: ClientInfo = {}
+  ): Promise<LoginResult> {
     try {
       const db = DatabaseConfig.getClient();
       const formattedMobile = OTPService.formatMobileNumber(mobileNumber);
@@ -169,36 +193,180 @@ export class AuthService {
         throw new NotFoundError('User not found');
       }
 
-      // Generate JWT token
-      const token = JWTService.generateToken(user.id, user.mobileNumber);
-      const expiresAt = JWTService.getTokenExpiration(token) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      return await this.startLogin(user, client);
+    } catch (error) {
+      this.logger.error('OTP verification failed:', error);
+      throw error;
+    }
+  }
 
-      // Update user's last activity
-      await db.user.update({
-        where: { id: user.id },
-        data: { updatedAt: new Date() }
-      });
+  /**
+   * Authenticate with a code sent to a verified email address
+   */
+  static async verifyEmailOTP(email: string, code: string, client: ClientInfo = {}): Promise<LoginResult> {
+    const user = await EmailAuthService.verifyLoginCode(email, code);
+    return this.startLogin(user, client);
+  }
 
-      this.logger.info(`User authenticated successfully: ${user.id}`);
+  /**
+   * Authenticate with an emailed magic link
+   */
+  static async verifyMagicLink(token: string, client: ClientInfo = {}): Promise<LoginResult> {
+    const user = await EmailAuthService.verifyMagicLink(token);
+    return this.startLogin(user, client);
+  }
 
-      // Return user without password hash
-      const { passwordHash: _, ...userWithoutPassword } = user;
+  /**
+   * Finish the first login factor: issue a session, or a challenge when 2FA is on
+   */
+  private static async startLogin(user: User, client: ClientInfo): Promise<LoginResult> {
+    this.assertNotSuspended(user);
+
+    // With 2FA on, the first factor only earns a challenge for the second step
+    if (user.twoFactorEnabled) {
+      const challenge = JWTService.generateTwoFactorChallenge(user.id);
+      this.logger.info(`Two-factor challenge issued for user: ${user.id}`);
 
       return {
-        user: userWithoutPassword,
-        token,
-        expiresAt
+        user: { id: user.id, mobileNumber: user.mobileNumber },
+        twoFactorRequired: true,
+        challengeToken: challenge.token,
+        challengeExpiresAt: challenge.expiresAt
       };
-    } catch (error) {
-      this.logger.error('OTP verification failed:', error);
-      throw error;
     }
+
+    // Start a session: short-lived access token plus a rotating refresh token
+    const tokens = await SessionService.createSession(user, client);
+
+    // Update user's last activity
+    const db = DatabaseConfig.getClient();
+    await db.user.update({
+      where: { id: user.id },
+      data: { updatedAt: new Date() }
+    });
+
+    this.logger.info(`User authenticated successfully: ${user.id}`);
+
+    // Return user without password hash
+    const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+
+    return {
+      user: userWithoutPassword,
+      twoFactorRequired: false,
+      ...tokens
+    };
+  }
+
+  /**
+   * Finish a login that needs a second factor
+   */
+  static async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    client: ClientInfo = {}
+  ): Promise<AuthResult & { method: TwoFactorMethod }> {
+    const userId = JWTService.verifyTwoFactorChallenge(challengeToken);
+    const method = await TwoFactorService.verify(userId, code);
+
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    this.assertNotSuspended(user);
+
+    const tokens = await SessionService.createSession(user, client);
+    this.logger.info(`User authenticated with two-factor (${method}): ${user.id}`);
+
+    const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+    return {
+      user: userWithoutPassword,
+      twoFactorRequired: false,
+      method,
+      ...tokens
+    };
+  }
+
+  /**
+   * Suspend an account and sign it out of every device
+   */
+  static async suspendUser(userId: string, reason?: string): Promise<{ user: UserData; revokedSessions: number }> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.suspendedAt) {
+      throw new ConflictError('User is already suspended');
+    }
+
+    const suspended = await db.user.update({
+      where: { id: userId },
+      data: { suspendedAt: new Date(), suspendedReason: reason?.slice(0, 500) || null }
+    });
+    const revokedSessions = await SessionService.revokeAllSessions(userId, 'account_suspended');
+
+    this.logger.info(`User suspended: ${userId}`);
+
+    const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = suspended;
+    return { user: userWithoutPassword, revokedSessions };
+  }
+
+  /**
+   * Lift a suspension
+   */
+  static async unsuspendUser(userId: string): Promise<UserData> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (!user.suspendedAt) {
+      throw new ConflictError('User is not suspended');
+    }
+
+    const restored = await db.user.update({
+      where: { id: userId },
+      data: { suspendedAt: null, suspendedReason: null }
+    });
+
+    this.logger.info(`User unsuspended: ${userId}`);
+
+    const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = restored;
+    return userWithoutPassword;
+  }
+
+  /**
+   * Sign a user out of every device on their behalf
+   */
+  static async forceLogout(userId: string): Promise<number> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return SessionService.revokeAllSessions(userId, 'admin_revoked');
   }
 
   /**
    * Change user password (authenticated user)
    */
-  static async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<{
+  static async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string
+  ): Promise<{
     message: string;
   }> {
     try {
@@ -233,6 +401,9 @@ export class AuthService {
         }
       });
 
+      // Sign out every other device
+      await SessionService.revokeAllSessions(userId, 'password_change', currentSessionId);
+
       this.logger.info(`Password changed successfully for user: ${userId}`);
 
       return {
@@ -282,6 +453,8 @@ export class AuthService {
         }
       });
 
+      await SessionService.revokeAllSessions(user.id, 'password_reset');
+
       this.logger.info(`Password reset successfully for user: ${user.id}`);
 
       return {
@@ -316,7 +489,7 @@ export class AuthService {
 
       this.logger.debug('User found, processing response');
       // Return user without password hash
-      const { passwordHash: _, ...userWithoutPassword } = user;
+      const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = user;
       this.logger.debug('User data processed successfully');
       return userWithoutPassword;
     } catch (error) {
@@ -342,7 +515,7 @@ export class AuthService {
       }
 
       // Return user without password hash
-      const { passwordHash: _, ...userWithoutPassword } = user;
+      const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = user;
       return userWithoutPassword;
     } catch (error) {
       this.logger.error('Get user by mobile failed:', error);
@@ -366,7 +539,7 @@ export class AuthService {
       });
 
       // Return user without password hash
-      const { passwordHash: _, ...userWithoutPassword } = user;
+      const { passwordHash: _, twoFactorSecret: __, ...userWithoutPassword } = user;
       return userWithoutPassword;
     } catch (error) {
       this.logger.error('Update profile failed:', error);
@@ -393,6 +566,12 @@ export class AuthService {
     }
   }
 
+  private static assertNotSuspended(user: Pick<User, 'suspendedAt'>): void {
+    if (user.suspendedAt) {
+      throw new AuthorizationError('This account has been suspended');
+    }
+  }
+
   /**
    * Validate password strength
    */
@@ -58,6 +58,22 @@ export class CacheService {
     }
   }
 
+  /**
+   * Increment a counter, starting its expiry when it is first created
+   */
+  static async increment(key: string, ttl: number): Promise<number> {
+    try {
+      const count = await this.redisClient.incr(key);
+      if (count === 1) {
+        await this.redisClient.expire(key, ttl);
+      }
+      return count;
+    } catch (error) {
+      this.logger.error(`Cache INCR error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Set a JSON object in cache
    */
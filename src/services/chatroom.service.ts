@@ -3,6 +3,8 @@ import { DatabaseConfig } from '../config/database.config';
 import { Logger } from '../utils/logger';
 import { NotFoundError, ValidationError } from '../middleware/error.middleware';
 import { CacheService } from './cache.service';
+import { EventService } from './event.service';
+import { SubscriptionService } from './subscription.service';
 
 interface CreateChatroomData {
   name: string;
@@ -12,11 +14,38 @@ interface CreateChatroomData {
 interface UpdateChatroomData {
   name?: string;
   description?: string;
+  systemPrompt?: string | null;
+  modelName?: string | null;
+  temperature?: number | null;
+  topP?: number | null;
+  maxOutputTokens?: number | null;
+  contextTokenBudget?: number | null;
+}
+
+export interface ChatroomAISettings {
+  systemPrompt: string | null;
+  modelName: string | null;
+  temperature: number;
+  topP: number | null;
+  maxOutputTokens: number;
+}
+
+interface ChatroomLineage {
+  parent: { id: string; name: string } | null;
+  ancestors: Array<{ id: string; name: string }>; // root first
+  forkedFromMessageId: string | null;
+  forks: Array<{ id: string; name: string; forkedFromMessageId: string | null; createdAt: Date }>;
 }
 
 interface ChatroomWithMessages extends Chatroom {
   messages: Message[];
   messageCount: number;
+  lineage: ChatroomLineage;
+}
+
+interface ForkChatroomData {
+  messageId: string;
+  name?: string;
 }
 
 interface ChatroomListItem extends Chatroom {
@@ -83,6 +112,26 @@ export class ChatroomService {
     }
   }
 
+  /**
+   * Get a chatroom only if it belongs to the user
+   */
+  static async getOwnedChatroom(chatroomId: string, userId: string): Promise<Chatroom> {
+    const db = DatabaseConfig.getClient();
+
+    const chatroom = await db.chatroom.findFirst({
+      where: {
+        id: chatroomId,
+        userId
+      }
+    });
+
+    if (!chatroom) {
+      throw new NotFoundError('Chatroom not found');
+    }
+
+    return chatroom;
+  }
+
   /**
    * Get all chatrooms for a user with pagination
    */
@@ -117,7 +166,7 @@ export class ChatroomService {
         where: { userId },
         include: {
           _count: {
-            select: { messages: true }
+            select: { messages: { where: { isActive: true } } }
           }
         },
         orderBy: { updatedAt: 'desc' },
@@ -129,7 +178,8 @@ export class ChatroomService {
       const chatroomIds = chatrooms.map(c => c.id);
       const lastMessages = await db.message.findMany({
         where: {
-          chatroomId: { in: chatroomIds }
+          chatroomId: { in: chatroomIds },
+          isActive: true
         },
         select: {
           chatroomId: true,
@@ -159,6 +209,14 @@ export class ChatroomService {
         description: chatroom.description,
         createdAt: chatroom.createdAt,
         updatedAt: chatroom.updatedAt,
+        systemPrompt: chatroom.systemPrompt,
+        modelName: chatroom.modelName,
+        temperature: chatroom.temperature,
+        topP: chatroom.topP,
+        maxOutputTokens: chatroom.maxOutputTokens,
+        contextTokenBudget: chatroom.contextTokenBudget,
+        parentChatroomId: chatroom.parentChatroomId,
+        forkedFromMessageId: chatroom.forkedFromMessageId,
         messageCount: chatroom._count.messages,
         lastMessage: lastMessageMap.get(chatroom.id) || undefined
       }));
@@ -216,12 +274,17 @@ export class ChatroomService {
         },
         include: {
           messages: {
+            where: { isActive: true },
             orderBy: { createdAt: 'desc' },
             skip,
             take: messagesLimit
           },
           _count: {
-            select: { messages: true }
+            select: { messages: { where: { isActive: true } } }
+          },
+          forks: {
+            select: { id: true, name: true, forkedFromMessageId: true, createdAt: true },
+            orderBy: { createdAt: 'asc' }
           }
         }
       });
@@ -230,6 +293,8 @@ export class ChatroomService {
         throw new NotFoundError('Chatroom not found');
       }
 
+      const ancestors = await this.getAncestors(chatroom.parentChatroomId);
+
       // Reverse messages to show oldest first
       const messages = chatroom.messages.reverse();
 
@@ -240,8 +305,22 @@ export class ChatroomService {
         description: chatroom.description,
         createdAt: chatroom.createdAt,
         updatedAt: chatroom.updatedAt,
+        systemPrompt: chatroom.systemPrompt,
+        modelName: chatroom.modelName,
+        temperature: chatroom.temperature,
+        topP: chatroom.topP,
+        maxOutputTokens: chatroom.maxOutputTokens,
+        contextTokenBudget: chatroom.contextTokenBudget,
+        parentChatroomId: chatroom.parentChatroomId,
+        forkedFromMessageId: chatroom.forkedFromMessageId,
         messages,
-        messageCount: chatroom._count.messages
+        messageCount: chatroom._count.messages,
+        lineage: {
+          parent: ancestors[ancestors.length - 1] ?? null,
+          ancestors,
+          forkedFromMessageId: chatroom.forkedFromMessageId,
+          forks: chatroom.forks
+        }
       };
 
       // Cache the result
@@ -255,6 +334,155 @@ export class ChatroomService {
     }
   }
 
+  /**
+   * Walk up the fork chain, returning ancestors root first
+   */
+  private static async getAncestors(parentChatroomId: string | null): Promise<Array<{ id: string; name: string }>> {
+    const db = DatabaseConfig.getClient();
+    const ancestors: Array<{ id: string; name: string }> = [];
+    let nextId = parentChatroomId;
+
+    // Depth cap guards against a corrupted (cyclic) chain
+    while (nextId && ancestors.length < 20) {
+      const parent = await db.chatroom.findUnique({
+        where: { id: nextId },
+        select: { id: true, name: true, parentChatroomId: true }
+      });
+      if (!parent) break;
+
+      ancestors.unshift({ id: parent.id, name: parent.name });
+      nextId = parent.parentChatroomId;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Fork a chatroom at a message: the new room gets a copy of the conversation
+   * up to and including that message, plus the parent's AI settings
+   */
+  static async forkChatroom(chatroomId: string, userId: string, data: ForkChatroomData): Promise<Chatroom> {
+    try {
+      if (!data.messageId) {
+        throw new ValidationError('Message ID is required');
+      }
+
+      if (data.name && data.name.trim().length > 100) {
+        throw new ValidationError('Chatroom name cannot exceed 100 characters');
+      }
+
+      const db = DatabaseConfig.getClient();
+      const parent = await this.getOwnedChatroom(chatroomId, userId);
+
+      const forkPoint = await db.message.findFirst({
+        where: { id: data.messageId, chatroomId: parent.id }
+      });
+
+      if (!forkPoint) {
+        throw new NotFoundError('Message not found in this chatroom');
+      }
+
+      if (!forkPoint.isActive) {
+        throw new ValidationError('Cannot fork from an inactive message version');
+      }
+
+      const name = data.name?.trim()
+        ? data.name.trim()
+        : await this.getAvailableName(userId, `${parent.name} (fork)`);
+
+      if (data.name?.trim()) {
+        const existing = await db.chatroom.findFirst({ where: { userId, name } });
+        if (existing) {
+          throw new ValidationError('A chatroom with this name already exists');
+        }
+      }
+
+      // Copy the active conversation up to the fork point, keeping the original timestamps.
+      // Messages sharing the fork point's timestamp are ordered by ID, as in context.service.
+      const history = await db.message.findMany({
+        where: {
+          chatroomId: parent.id,
+          isActive: true,
+          OR: [
+            { createdAt: { lt: forkPoint.createdAt } },
+            { createdAt: forkPoint.createdAt, id: { lte: forkPoint.id } }
+          ]
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+      });
+
+      const fork = await db.$transaction(async tx => {
+        const created = await tx.chatroom.create({
+          data: {
+            userId,
+            name,
+            description: parent.description,
+            systemPrompt: parent.systemPrompt,
+            modelName: parent.modelName,
+            temperature: parent.temperature,
+            topP: parent.topP,
+            maxOutputTokens: parent.maxOutputTokens,
+            contextTokenBudget: parent.contextTokenBudget,
+            parentChatroomId: parent.id,
+            forkedFromMessageId: forkPoint.id
+          }
+        });
+
+        // Created one at a time so replies can point at the copies of their prompts
+        const idMap = new Map<string, string>();
+        for (const message of history) {
+          const copy = await tx.message.create({
+            data: {
+              chatroomId: created.id,
+              content: message.content,
+              sender: message.sender,
+              messageType: message.messageType,
+              createdAt: message.createdAt,
+              replyToId: message.replyToId ? idMap.get(message.replyToId) ?? null : null
+            },
+            select: { id: true }
+          });
+          idMap.set(message.id, copy.id);
+        }
+
+        return created;
+      });
+
+      // Both rooms' cached details change: the fork is new and the parent lists it
+      await CacheService.invalidateChatroomCache(parent.id, userId);
+
+      this.logger.info(`Chatroom forked: ${parent.id} -> ${fork.id} at message: ${forkPoint.id}`);
+      return fork;
+    } catch (error) {
+      this.logger.error('Fork chatroom failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Suffix a chatroom name with the lowest number that does not clash with the user's other rooms
+   */
+  static async getAvailableName(userId: string, baseName: string): Promise<string> {
+    const db = DatabaseConfig.getClient();
+    const base = baseName.slice(0, 90);
+
+    const taken = await db.chatroom.findMany({
+      where: { userId, name: { startsWith: base } },
+      select: { name: true }
+    });
+    const names = new Set(taken.map(chatroom => chatroom.name));
+
+    if (!names.has(base)) {
+      return base;
+    }
+
+    let suffix = 2;
+    while (names.has(`${base} ${suffix}`)) {
+      suffix++;
+    }
+    return `${base} ${suffix}`;
+  }
+
   /**
    * Update a chatroom
    */
@@ -266,7 +494,7 @@ export class ChatroomService {
     try {
       // Validate input
       if (data.name !== undefined) {
-        if (!data.name || data.name.trim().length === 0) {
+        if (typeof data.name !== 'string' || data.name.trim().length === 0) {
           throw new ValidationError('Chatroom name cannot be empty');
         }
         if (data.name.length > 100) {
@@ -274,6 +502,9 @@ export class ChatroomService {
         }
       }
 
+      if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+        throw new ValidationError('Chatroom description must be a string');
+      }
       if (data.description !== undefined && data.description && data.description.length > 500) {
         throw new ValidationError('Chatroom description cannot exceed 500 characters');
       }
@@ -285,6 +516,11 @@ export class ChatroomService {
         where: {
           id: chatroomId,
           userId
+        },
+        include: {
+          user: {
+            select: { subscriptionTier: true }
+          }
         }
       });
 
@@ -292,6 +528,9 @@ export class ChatroomService {
         throw new NotFoundError('Chatroom not found');
       }
 
+      // Validate AI settings against the user's tier
+      this.validateAISettings(data, existingChatroom.user.subscriptionTier as 'basic' | 'pro');
+
       // Check if updating name conflicts with existing chatroom
       if (data.name && data.name.trim() !== existingChatroom.name) {
         const conflictingChatroom = await db.chatroom.findFirst({
@@ -315,6 +554,24 @@ export class ChatroomService {
       if (data.description !== undefined) {
         updateData.description = data.description?.trim() || null;
       }
+      if (data.systemPrompt !== undefined) {
+        updateData.systemPrompt = data.systemPrompt?.trim() || null;
+      }
+      if (data.modelName !== undefined) {
+        updateData.modelName = data.modelName?.trim() || null;
+      }
+      if (data.temperature !== undefined) {
+        updateData.temperature = data.temperature;
+      }
+      if (data.topP !== undefined) {
+        updateData.topP = data.topP;
+      }
+      if (data.maxOutputTokens !== undefined) {
+        updateData.maxOutputTokens = data.maxOutputTokens;
+      }
+      if (data.contextTokenBudget !== undefined) {
+        updateData.contextTokenBudget = data.contextTokenBudget;
+      }
 
       const updatedChatroom = await db.chatroom.update({
         where: { id: chatroomId },
@@ -324,6 +581,9 @@ export class ChatroomService {
       // Invalidate cache after update
       await CacheService.invalidateChatroomCache(chatroomId, userId);
 
+      // Notify live subscribers
+      await EventService.publish('chatroom.updated', chatroomId, userId, { chatroom: updatedChatroom });
+
       this.logger.info(`Chatroom updated: ${chatroomId}`);
       return updatedChatroom;
     } catch (error) {
@@ -332,6 +592,98 @@ export class ChatroomService {
     }
   }
 
+  /**
+   * Validate AI persona, generation and memory settings against tier limits
+   */
+  private static validateAISettings(data: UpdateChatroomData, tier: 'basic' | 'pro'): void {
+    const limits = SubscriptionService.getInstance().getSubscriptionLimits(tier);
+
+    // Bodies are plain JSON, so check types before any string or number handling
+    if (data.systemPrompt !== undefined && data.systemPrompt !== null && typeof data.systemPrompt !== 'string') {
+      throw new ValidationError('System prompt must be a string');
+    }
+    if (data.modelName !== undefined && data.modelName !== null && typeof data.modelName !== 'string') {
+      throw new ValidationError('Model name must be a string');
+    }
+
+    if (data.systemPrompt && data.systemPrompt.length > limits.maxSystemPromptLength) {
+      throw new ValidationError(`System prompt cannot exceed ${limits.maxSystemPromptLength} characters on the ${tier} tier`);
+    }
+
+    if (data.modelName && !limits.allowedModels.includes(data.modelName.trim())) {
+      throw new ValidationError(`Model must be one of: ${limits.allowedModels.join(', ')}`);
+    }
+
+    if (data.temperature !== undefined && data.temperature !== null) {
+      if (typeof data.temperature !== 'number' || !Number.isFinite(data.temperature) || data.temperature < 0 || data.temperature > 2) {
+        throw new ValidationError('Temperature must be a number between 0 and 2');
+      }
+    }
+
+    if (data.topP !== undefined && data.topP !== null) {
+      if (typeof data.topP !== 'number' || data.topP <= 0 || data.topP > 1) {
+        throw new ValidationError('Top-p must be a number greater than 0 and at most 1');
+      }
+    }
+
+    if (data.maxOutputTokens !== undefined && data.maxOutputTokens !== null) {
+      if (typeof data.maxOutputTokens !== 'number' || !Number.isInteger(data.maxOutputTokens) || data.maxOutputTokens < 1) {
+        throw new ValidationError('Max output tokens must be a positive integer');
+      }
+      if (data.maxOutputTokens > limits.maxOutputTokens) {
+        throw new ValidationError(`Max output tokens cannot exceed ${limits.maxOutputTokens} on the ${tier} tier`);
+      }
+    }
+
+    if (data.contextTokenBudget !== undefined && data.contextTokenBudget !== null) {
+      if (typeof data.contextTokenBudget !== 'number' || !Number.isInteger(data.contextTokenBudget) || data.contextTokenBudget < 256) {
+        throw new ValidationError('Context token budget must be an integer of at least 256');
+      }
+      if (data.contextTokenBudget > limits.maxContextTokenBudget) {
+        throw new ValidationError(`Context token budget cannot exceed ${limits.maxContextTokenBudget} on the ${tier} tier`);
+      }
+    }
+  }
+
+  /**
+   * Resolve the AI settings used when generating replies for a chatroom.
+   * Values the owner's current tier no longer allows fall back to defaults.
+   */
+  static async getAISettings(chatroomId: string): Promise<ChatroomAISettings> {
+    const db = DatabaseConfig.getClient();
+
+    const chatroom = await db.chatroom.findUnique({
+      where: { id: chatroomId },
+      include: {
+        user: {
+          select: { subscriptionTier: true }
+        }
+      }
+    });
+
+    if (!chatroom) {
+      throw new NotFoundError('Chatroom not found');
+    }
+
+    const limits = SubscriptionService.getInstance().getSubscriptionLimits(
+      chatroom.user.subscriptionTier as 'basic' | 'pro'
+    );
+
+    const modelName = chatroom.modelName && limits.allowedModels.includes(chatroom.modelName)
+      ? chatroom.modelName
+      : null;
+
+    return {
+      systemPrompt: chatroom.systemPrompt
+        ? chatroom.systemPrompt.slice(0, limits.maxSystemPromptLength)
+        : null,
+      modelName,
+      temperature: chatroom.temperature ?? 0.7,
+      topP: chatroom.topP,
+      maxOutputTokens: Math.min(chatroom.maxOutputTokens ?? 2048, limits.maxOutputTokens)
+    };
+  }
+
   /**
    * Delete a chatroom and all its messages
    */
@@ -351,13 +703,26 @@ export class ChatroomService {
         throw new NotFoundError('Chatroom not found');
       }
 
-      // Delete the chatroom (messages will be cascade deleted)
+      const forks = await db.chatroom.findMany({
+        where: { parentChatroomId: chatroomId },
+        select: { id: true }
+      });
+
+      // Delete the chatroom (messages will be cascade deleted, forks are detached)
       await db.chatroom.delete({
         where: { id: chatroomId }
       });
 
-      // Invalidate cache after deletion
+      // Invalidate cache after deletion, including rooms whose lineage mentioned this one
       await CacheService.invalidateChatroomCache(chatroomId, userId);
+      for (const relatedId of [chatroom.parentChatroomId, ...forks.map(f => f.id)]) {
+        if (relatedId) {
+          await CacheService.invalidateChatroomCache(relatedId, userId);
+        }
+      }
+
+      // Notify live subscribers
+      await EventService.publish('chatroom.updated', chatroomId, userId, { chatroomId, deleted: true });
 
       this.logger.info(`Chatroom deleted: ${chatroomId}`);
     } catch (error) {
@@ -468,6 +833,7 @@ export class ChatroomService {
         },
         include: {
           messages: {
+            where: { isActive: true },
             take: 1,
             orderBy: { createdAt: 'desc' },
             select: {
@@ -477,7 +843,7 @@ export class ChatroomService {
             }
           },
           _count: {
-            select: { messages: true }
+            select: { messages: { where: { isActive: true } } }
           }
         },
         orderBy: { updatedAt: 'desc' },
@@ -493,6 +859,14 @@ export class ChatroomService {
         description: chatroom.description,
         createdAt: chatroom.createdAt,
         updatedAt: chatroom.updatedAt,
+        systemPrompt: chatroom.systemPrompt,
+        modelName: chatroom.modelName,
+        temperature: chatroom.temperature,
+        topP: chatroom.topP,
+        maxOutputTokens: chatroom.maxOutputTokens,
+        contextTokenBudget: chatroom.contextTokenBudget,
+        parentChatroomId: chatroom.parentChatroomId,
+        forkedFromMessageId: chatroom.forkedFromMessageId,
         messageCount: chatroom._count.messages,
         lastMessage: chatroom.messages[0] || undefined
       }));
@@ -0,0 +1,244 @@
+import { ChatroomSummary, Message, Prisma } from '@prisma/client';
+import { AppConfig } from '../config/app.config';
+import { DatabaseConfig } from '../config/database.config';
+import { Logger } from '../utils/logger';
+import { NotFoundError } from '../middleware/error.middleware';
+import { LLMMessage } from './llm';
+import { QueueService } from './queue.service';
+import { SubscriptionService } from './subscription.service';
+
+export interface ConversationContext {
+  history: LLMMessage[];
+  summary: ChatroomSummary | null;
+  tokenBudget: number;
+  historyTokens: number;
+  summaryTokens: number;
+  includedMessages: number;
+  omittedMessages: number;
+  unsummarizedMessages: number;
+  windowStart: Date | null;
+}
+
+interface BuildContextOptions {
+  excludeMessageId?: string;
+}
+
+export class ContextService {
+  private static logger = Logger.getInstance();
+
+  /**
+   * Rough token estimate (~4 characters per token) used for budgeting
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Select the most recent messages that fit the chatroom's token budget,
+   * alongside the stored summary of anything older
+   */
+  static async buildContext(
+    chatRoomId: string,
+    options: BuildContextOptions = {}
+  ): Promise<ConversationContext> {
+    const db = DatabaseConfig.getClient();
+
+    const chatroom = await db.chatroom.findUnique({
+      where: { id: chatRoomId },
+      include: {
+        summary: true,
+        user: {
+          select: { subscriptionTier: true }
+        }
+      }
+    });
+
+    if (!chatroom) {
+      throw new NotFoundError('Chatroom not found');
+    }
+
+    const limits = SubscriptionService.getInstance().getSubscriptionLimits(
+      chatroom.user.subscriptionTier as 'basic' | 'pro'
+    );
+    const tokenBudget = Math.min(
+      chatroom.contextTokenBudget ?? AppConfig.contextTokenBudget,
+      limits.maxContextTokenBudget
+    );
+
+    const summary = chatroom.summary;
+    const summaryTokens = summary ? this.estimateTokens(summary.content) : 0;
+    const availableTokens = Math.max(tokenBudget - summaryTokens, 0);
+
+    const where = {
+      chatroomId: chatRoomId,
+      isActive: true,
+      ...(options.excludeMessageId && { id: { not: options.excludeMessageId } })
+    };
+
+    // Walk backwards from the newest message until the budget is spent
+    const recentMessages = await db.message.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: AppConfig.contextMaxMessages
+    });
+
+    const window: Message[] = [];
+    let historyTokens = 0;
+
+    for (const message of recentMessages) {
+      const tokens = this.estimateTokens(message.content);
+      if (historyTokens + tokens > availableTokens) {
+        break;
+      }
+      window.unshift(message);
+      historyTokens += tokens;
+    }
+
+    // Chat history has to open with a user turn
+    while (window[0] && window[0].sender !== 'user') {
+      historyTokens -= this.estimateTokens(window[0].content);
+      window.shift();
+    }
+
+    const windowStart = window[0]?.createdAt ?? null;
+    const totalMessages = await db.message.count({ where });
+
+    // Older messages that neither fit the window nor are covered by the summary
+    const unsummarizedMessages = await db.message.count({
+      where: {
+        ...where,
+        AND: [
+          windowStart ? { createdAt: { lt: windowStart } } : {},
+          this.notSummarized(summary)
+        ]
+      }
+    });
+
+    return {
+      history: window.map(message => ({
+        role: message.sender === 'user' ? 'user' : 'model',
+        parts: [message.content]
+      })),
+      summary,
+      tokenBudget,
+      historyTokens,
+      summaryTokens,
+      includedMessages: window.length,
+      omittedMessages: totalMessages - window.length,
+      unsummarizedMessages,
+      windowStart
+    };
+  }
+
+  /**
+   * Append the rolling summary to the system prompt
+   */
+  static withSummary(systemPrompt: string, summary: ChatroomSummary | null): string {
+    if (!summary) {
+      return systemPrompt;
+    }
+    return `${systemPrompt}\n\nSummary of the earlier conversation:\n${summary.content}`;
+  }
+
+  /**
+   * Queue a summary refresh when older turns have fallen out of the window
+   */
+  static async scheduleSummaryRefresh(chatRoomId: string, context: ConversationContext): Promise<void> {
+    if (context.unsummarizedMessages === 0) {
+      return;
+    }
+
+    try {
+      await QueueService.getInstance().enqueueChatroomSummary({
+        chatRoomId,
+        requestedAt: new Date()
+      });
+    } catch (error) {
+      // The reply can still be generated from the recent window alone
+      this.logger.error(`Failed to schedule summary refresh for chatroom ${chatRoomId}:`, error);
+    }
+  }
+
+  /**
+   * Fetch the oldest messages that are outside the window and not yet summarized
+   */
+  static async getMessagesToSummarize(
+    chatRoomId: string
+  ): Promise<{ summary: ChatroomSummary | null; messages: Message[] }> {
+    const context = await this.buildContext(chatRoomId);
+    if (context.unsummarizedMessages === 0) {
+      return { summary: context.summary, messages: [] };
+    }
+
+    const db = DatabaseConfig.getClient();
+    const messages = await db.message.findMany({
+      where: {
+        chatroomId: chatRoomId,
+        isActive: true,
+        AND: [
+          context.windowStart ? { createdAt: { lt: context.windowStart } } : {},
+          this.notSummarized(context.summary)
+        ]
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: AppConfig.summaryBatchSize
+    });
+
+    return { summary: context.summary, messages };
+  }
+
+  /**
+   * Messages after the last summarized one, compared on (createdAt, id) so a message
+   * sharing its timestamp but left out of the summary is still picked up
+   */
+  private static notSummarized(summary: ChatroomSummary | null): Prisma.MessageWhereInput {
+    if (!summary) {
+      return {};
+    }
+    // Summaries saved before the message ID was recorded only have the timestamp
+    if (!summary.summarizedThroughId) {
+      return { createdAt: { gt: summary.summarizedThrough } };
+    }
+
+    return {
+      OR: [
+        { createdAt: { gt: summary.summarizedThrough } },
+        { createdAt: summary.summarizedThrough, id: { gt: summary.summarizedThroughId } }
+      ]
+    };
+  }
+
+  /**
+   * Store the refreshed rolling summary for a chatroom
+   */
+  static async saveSummary(
+    chatRoomId: string,
+    content: string,
+    summarizedMessages: Message[]
+  ): Promise<ChatroomSummary> {
+    const lastMessage = summarizedMessages[summarizedMessages.length - 1];
+    if (!lastMessage) {
+      throw new Error('Cannot save a summary without summarized messages');
+    }
+
+    const db = DatabaseConfig.getClient();
+    return db.chatroomSummary.upsert({
+      where: { chatroomId: chatRoomId },
+      create: {
+        chatroomId: chatRoomId,
+        content,
+        summarizedThrough: lastMessage.createdAt,
+        summarizedThroughId: lastMessage.id,
+        messageCount: summarizedMessages.length,
+        tokenCount: this.estimateTokens(content)
+      },
+      update: {
+        content,
+        summarizedThrough: lastMessage.createdAt,
+        summarizedThroughId: lastMessage.id,
+        messageCount: { increment: summarizedMessages.length },
+        tokenCount: this.estimateTokens(content)
+      }
+    });
+  }
+}
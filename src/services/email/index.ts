@@ -0,0 +1,22 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { AppConfig } from '../../config/app.config';
+
+export * from './templates';
+
+/**
+ * SMTP transport from the SMTP_* settings. Without credentials it connects
+ * unauthenticated, which is what local catchers such as Mailpit expect.
+ */
+export function createMailTransport(): Transporter {
+  return nodemailer.createTransport({
+    host: AppConfig.smtpHost,
+    port: AppConfig.smtpPort,
+    secure: AppConfig.smtpSecure,
+    ...(AppConfig.smtpUser && {
+      auth: {
+        user: AppConfig.smtpUser,
+        pass: AppConfig.smtpPassword
+      }
+    })
+  });
+}
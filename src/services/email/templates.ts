@@ -0,0 +1,125 @@
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailTemplate {
+  subject: (data: Record<string, any>) => string;
+  text: (data: Record<string, any>) => string;
+  body: (data: Record<string, any>) => string; // HTML inside the shared layout
+  footer?: string;
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const DEFAULT_FOOTER = 'If you did not request this email, you can ignore it.';
+const BILLING_FOOTER = 'You are receiving this email because you have a Gemini Chatroom subscription.';
+
+const layout = (title: string, body: string, footer: string = DEFAULT_FOOTER): string => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:24px;background:#f5f5f7;font-family:Arial,Helvetica,sans-serif;color:#1f1f1f;">
+    <div style="max-width:480px;margin:0 auto;padding:32px;background:#ffffff;border-radius:8px;">
+      ${body}
+      <p style="margin-top:32px;font-size:12px;color:#6b6b6b;">${escapeHtml(footer)}</p>
+    </div>
+  </body>
+</html>`;
+
+const codeBlock = (code: unknown): string =>
+  `<p style="font-size:28px;font-weight:bold;letter-spacing:6px;">${escapeHtml(code)}</p>`;
+
+const button = (url: unknown, label: string): string =>
+  `<p><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#1a73e8;color:#ffffff;text-decoration:none;border-radius:4px;">${escapeHtml(label)}</a></p>`;
+
+const TEMPLATES = {
+  login_code: {
+    subject: () => 'Your Gemini Chatroom sign-in code',
+    text: data =>
+      `Your sign-in code is ${data.code}. It expires in ${data.expiresInMinutes} minutes.\n\n` +
+      `Or sign in with this link:\n${data.link}\n`,
+    body: data =>
+      `<h2>Sign in to Gemini Chatroom</h2>
+      <p>Enter this code to sign in. It expires in ${escapeHtml(data.expiresInMinutes)} minutes.</p>
+      ${codeBlock(data.code)}
+      <p>Or sign in with one click:</p>
+      ${button(data.link, 'Sign in')}`
+  },
+  verify_email: {
+    subject: () => 'Confirm your email address',
+    text: data =>
+      `Your confirmation code is ${data.code}. It expires in ${data.expiresInMinutes} minutes.\n\n` +
+      `Or confirm ${data.email} with this link:\n${data.link}\n`,
+    body: data =>
+      `<h2>Confirm your email address</h2>
+      <p>Enter this code to add <strong>${escapeHtml(data.email)}</strong> to your account. It expires in ${escapeHtml(data.expiresInMinutes)} minutes.</p>
+      ${codeBlock(data.code)}
+      <p>Or confirm it with one click:</p>
+      ${button(data.link, 'Confirm email')}`
+  },
+  payment_failed: {
+    subject: () => 'Your Gemini Chatroom payment failed',
+    text: data =>
+      `We could not collect the payment for your ${data.tier} plan.\n\n` +
+      `You keep ${data.tier} features until ${data.graceEndsAt}. After that your account moves to the basic plan.\n\n` +
+      `Update your payment details here:\n${data.link}\n`,
+    body: data =>
+      `<h2>Your payment failed</h2>
+      <p>We could not collect the payment for your <strong>${escapeHtml(data.tier)}</strong> plan.</p>
+      <p>You keep ${escapeHtml(data.tier)} features until <strong>${escapeHtml(data.graceEndsAt)}</strong>. After that your account moves to the basic plan.</p>
+      ${button(data.link, 'Update payment details')}`,
+    footer: BILLING_FOOTER
+  },
+  subscription_downgraded: {
+    subject: () => 'Your account has moved to the basic plan',
+    text: data =>
+      `We still could not collect the payment for your ${data.tier} plan, so your account is now on the basic plan.\n\n` +
+      `Pay the outstanding invoice to get ${data.tier} features back:\n${data.link}\n`,
+    body: data =>
+      `<h2>Your account is now on the basic plan</h2>
+      <p>We still could not collect the payment for your <strong>${escapeHtml(data.tier)}</strong> plan, so your account has moved to the basic plan.</p>
+      <p>Pay the outstanding invoice to get ${escapeHtml(data.tier)} features back.</p>
+      ${button(data.link, 'Manage billing')}`,
+    footer: BILLING_FOOTER
+  },
+  trial_ending: {
+    subject: () => 'Your Gemini Chatroom trial ends soon',
+    text: data =>
+      `Your ${data.tier} trial ends on ${data.trialEndsAt}. Your payment method will be charged then.\n\n` +
+      `Review your plan here:\n${data.link}\n`,
+    body: data =>
+      `<h2>Your trial ends soon</h2>
+      <p>Your <strong>${escapeHtml(data.tier)}</strong> trial ends on <strong>${escapeHtml(data.trialEndsAt)}</strong>. Your payment method will be charged then.</p>
+      ${button(data.link, 'Review your plan')}`,
+    footer: BILLING_FOOTER
+  }
+} satisfies Record<string, EmailTemplate>;
+
+export type EmailTemplateName = keyof typeof TEMPLATES;
+
+/**
+ * Render a named template into subject, plain-text and HTML parts
+ */
+export function renderEmailTemplate(name: string, data: Record<string, any> = {}): RenderedEmail {
+  const template: EmailTemplate | undefined = TEMPLATES[name as EmailTemplateName];
+  if (!template) {
+    throw new Error(`Unknown email template "${name}". Expected one of: ${Object.keys(TEMPLATES).join(', ')}`);
+  }
+
+  const subject = template.subject(data);
+  return {
+    subject,
+    text: template.text(data),
+    html: layout(subject, template.body(data), template.footer)
+  };
+}
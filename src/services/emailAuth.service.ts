@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+import { EmailCode, Prisma, User } from '@prisma/client';
+import { AppConfig } from '../config/app.config';
+import { DatabaseConfig } from '../config/database.config';
+import { QueueConfig } from '../config/queue.config';
+import { QueueService } from './queue.service';
+import { CacheService } from './cache.service';
+import { EmailTemplateName, renderEmailTemplate } from './email';
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError
+} from '../middleware/error.middleware';
+import { Logger } from '../utils/logger';
+
+export type EmailCodePurpose = 'login' | 'verify_email';
+
+export interface EmailCodeDelivery {
+  email: string;
+  code: string; // only echoed to the client in development
+  expiresAt: Date;
+}
+
+const TEMPLATE_BY_PURPOSE: Record<EmailCodePurpose, EmailTemplateName> = {
+  login: 'login_code',
+  verify_email: 'verify_email'
+};
+
+export class EmailAuthService {
+  private static logger = Logger.getInstance();
+  private static readonly CODE_EXPIRY_MINUTES = 15;
+  private static readonly CODE_LENGTH = 6;
+  private static readonly MAX_VERIFY_ATTEMPTS = 5;
+  private static readonly MAX_SENDS_PER_HOUR = 5;
+  private static readonly MAX_SENDS_PER_REQUESTER_PER_HOUR = 20;
+
+  /**
+   * Email addresses are stored trimmed and lower-cased
+   */
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Whether an account has verified this email address
+   */
+  static async emailExists(email: string): Promise<boolean> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({
+      where: { email: this.normalizeEmail(email) },
+      select: { emailVerifiedAt: true }
+    });
+
+    return !!user?.emailVerifiedAt;
+  }
+
+  /**
+   * Email a sign-in code and an equivalent magic link to a verified address
+   */
+  static async sendLoginCode(email: string, requesterIp?: string): Promise<EmailCodeDelivery> {
+    const db = DatabaseConfig.getClient();
+    const normalized = this.normalizeEmail(email);
+
+    // Counted before the lookup so one client cannot cycle through addresses
+    if (requesterIp) {
+      await this.countSend(`requester:${requesterIp}`, this.MAX_SENDS_PER_REQUESTER_PER_HOUR);
+    }
+    const user = await db.user.findUnique({ where: { email: normalized } });
+
+    if (!user?.emailVerifiedAt) {
+      throw new NotFoundError('User not found with this email address');
+    }
+
+    return this.issueCode(user.id, normalized, 'login');
+  }
+
+  /**
+   * Check a sign-in code and return the user it was sent to
+   */
+  static async verifyLoginCode(email: string, code: string): Promise<User> {
+    const normalized = this.normalizeEmail(email);
+    const record = await this.findPendingCode({ email: normalized, purpose: 'login' });
+    await this.redeemCode(record, code);
+
+    return this.getLoginUser(record);
+  }
+
+  /**
+   * Redeem a magic link and return the user it was sent to
+   */
+  static async verifyMagicLink(token: string): Promise<User> {
+    const record = await this.redeemToken(token, 'login');
+    return this.getLoginUser(record);
+  }
+
+  /**
+   * Send a confirmation code and link to an address the user wants to add.
+   * The address is only stored on the account once confirmed.
+   */
+  static async requestEmailVerification(userId: string, email: string): Promise<EmailCodeDelivery> {
+    const db = DatabaseConfig.getClient();
+    const normalized = this.normalizeEmail(email);
+    const owner = await db.user.findUnique({
+      where: { email: normalized },
+      select: { id: true }
+    });
+
+    if (owner) {
+      throw new ConflictError(
+        owner.id === userId ? 'This email address is already verified' : 'Email address is already in use'
+      );
+    }
+
+    return this.issueCode(userId, normalized, 'verify_email');
+  }
+
+  /**
+   * Confirm the pending address with the emailed code
+   */
+  static async confirmEmailWithCode(userId: string, code: string): Promise<User> {
+    const record = await this.findPendingCode({ userId, purpose: 'verify_email' });
+    await this.redeemCode(record, code);
+
+    return this.setVerifiedEmail(record.userId, record.email);
+  }
+
+  /**
+   * Confirm the pending address with the emailed link
+   */
+  static async confirmEmailWithToken(token: string): Promise<User> {
+    const record = await this.redeemToken(token, 'verify_email');
+    return this.setVerifiedEmail(record.userId, record.email);
+  }
+
+  /**
+   * Remove the email address from an account
+   */
+  static async removeEmail(userId: string): Promise<void> {
+    const db = DatabaseConfig.getClient();
+    await db.$transaction([
+      db.user.update({
+        where: { id: userId },
+        data: { email: null, emailVerifiedAt: null }
+      }),
+      db.emailCode.deleteMany({ where: { userId } })
+    ]);
+
+    this.logger.info(`Email address removed for user: ${userId}`);
+  }
+
+  /**
+   * Store a new code, replacing earlier unused ones, and queue the email
+   */
+  private static async issueCode(
+    userId: string,
+    email: string,
+    purpose: EmailCodePurpose
+  ): Promise<EmailCodeDelivery> {
+    const db = DatabaseConfig.getClient();
+
+    await this.countSend(`address:${email}`, this.MAX_SENDS_PER_HOUR);
+    await this.countSend(`account:${userId}`, this.MAX_SENDS_PER_HOUR);
+
+    const code = crypto.randomInt(Math.pow(10, this.CODE_LENGTH - 1), Math.pow(10, this.CODE_LENGTH)).toString();
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.CODE_EXPIRY_MINUTES * 60 * 1000);
+
+    await db.$transaction([
+      db.emailCode.deleteMany({ where: { userId, purpose, usedAt: null } }),
+      db.emailCode.create({
+        data: {
+          userId,
+          email,
+          purpose,
+          codeHash: this.hash(code),
+          tokenHash: this.hash(token),
+          expiresAt
+        }
+      })
+    ]);
+
+    const template = TEMPLATE_BY_PURPOSE[purpose];
+    const data = {
+      email,
+      expiresInMinutes: this.CODE_EXPIRY_MINUTES
+    };
+    const secretData = {
+      code,
+      link: `${AppConfig.emailLinkUrl}?${new URLSearchParams({ token, purpose }).toString()}`
+    };
+
+    // Failed jobs are kept for inspection, so the code and link travel outside the job data
+    const secretDataKey = `email:secret:${crypto.randomUUID()}`;
+    await CacheService.setJson(secretDataKey, secretData, this.CODE_EXPIRY_MINUTES * 60);
+
+    await QueueService.getInstance().enqueueEmail({
+      to: email,
+      subject: renderEmailTemplate(template, { ...data, ...secretData }).subject,
+      template,
+      data,
+      secretDataKey,
+      priority: QueueConfig.JOB_PRIORITIES.HIGH
+    });
+
+    this.logger.info(`Email code issued for user ${userId} (${purpose})`);
+    return { email, code, expiresAt };
+  }
+
+  // Deleting unused codes on reissue would hide earlier sends, so they are counted in Redis
+  private static async countSend(key: string, limit: number): Promise<void> {
+    const sends = await CacheService.increment(`email:sends:${key}`, 60 * 60);
+    if (sends > limit) {
+      throw new RateLimitError('Too many email codes requested. Please try again later.');
+    }
+  }
+
+  private static async findPendingCode(where: Prisma.EmailCodeWhereInput): Promise<EmailCode> {
+    const db = DatabaseConfig.getClient();
+    const record = await db.emailCode.findFirst({
+      where: { ...where, usedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!record) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+    return record;
+  }
+
+  /**
+   * Spend a code. Each guess claims an attempt before the comparison, so a burst of
+   * parallel guesses cannot get past the limit; the last allowed wrong guess burns the code.
+   */
+  private static async redeemCode(record: EmailCode, code: string): Promise<void> {
+    const db = DatabaseConfig.getClient();
+
+    const claimed = await db.emailCode.updateMany({
+      where: { id: record.id, usedAt: null, attempts: { lt: this.MAX_VERIFY_ATTEMPTS } },
+      data: { attempts: { increment: 1 } }
+    });
+    if (claimed.count === 0) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    const expected = Buffer.from(record.codeHash);
+    const actual = Buffer.from(this.hash(code.trim()));
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      await db.emailCode.updateMany({
+        where: { id: record.id, usedAt: null, attempts: { gte: this.MAX_VERIFY_ATTEMPTS } },
+        data: { usedAt: new Date() }
+      });
+      throw new AuthenticationError('Invalid or expired code');
+    }
+
+    await this.markUsed(record.id);
+  }
+
+  private static async redeemToken(token: string, purpose: EmailCodePurpose): Promise<EmailCode> {
+    const db = DatabaseConfig.getClient();
+    const record = await db.emailCode.findUnique({
+      where: { tokenHash: this.hash(token) }
+    });
+
+    if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt < new Date()) {
+      throw new AuthenticationError('Invalid or expired link');
+    }
+
+    await this.markUsed(record.id);
+    return record;
+  }
+
+  // Only one request may spend a code or link
+  private static async markUsed(id: string): Promise<void> {
+    const db = DatabaseConfig.getClient();
+    const { count } = await db.emailCode.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (count === 0) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+  }
+
+  private static async setVerifiedEmail(userId: string, email: string): Promise<User> {
+    const db = DatabaseConfig.getClient();
+
+    try {
+      const user = await db.user.update({
+        where: { id: userId },
+        data: { email, emailVerifiedAt: new Date() }
+      });
+
+      this.logger.info(`Email address verified for user: ${userId}`);
+      return user;
+    } catch (error) {
+      // Another account confirmed the same address first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Email address is already in use');
+      }
+      throw error;
+    }
+  }
+
+  // A code sent before the account changed its address no longer signs in
+  private static async getLoginUser(record: EmailCode): Promise<User> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({ where: { id: record.userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.email !== record.email) {
+      throw new AuthenticationError('Invalid or expired code');
+    }
+    return user;
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
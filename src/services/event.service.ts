@@ -0,0 +1,87 @@
+import { RedisConfig } from '../config/redis.config';
+import { Logger } from '../utils/logger';
+
+export type ChatroomEventType =
+  | 'message.created'
+  | 'message.deleted'
+  | 'conversation.branched'
+  | 'ai.job.progress'
+  | 'chatroom.updated';
+
+export interface ChatroomEvent {
+  type: ChatroomEventType;
+  chatroomId: string;
+  userId: string;
+  data: any;
+  timestamp: string;
+}
+
+export type ChatroomEventHandler = (event: ChatroomEvent) => void;
+
+export class EventService {
+  private static logger = Logger.getInstance();
+  private static publisher = RedisConfig.getRedisClient();
+  private static readonly CHANNEL_PREFIX = 'events:chatroom:';
+
+  /**
+   * Publish a chatroom event to every API instance
+   */
+  static async publish(
+    type: ChatroomEventType,
+    chatroomId: string,
+    userId: string,
+    data: any
+  ): Promise<void> {
+    try {
+      const event: ChatroomEvent = {
+        type,
+        chatroomId,
+        userId,
+        data,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.publisher.publish(`${this.CHANNEL_PREFIX}${chatroomId}`, JSON.stringify(event));
+      this.logger.debug(`Published ${type} event for chatroom: ${chatroomId}`);
+    } catch (error) {
+      // Live events are best-effort; never fail the originating request
+      this.logger.error(`Failed to publish ${type} event for chatroom ${chatroomId}:`, error);
+    }
+  }
+
+  /**
+   * Subscribe to events for all chatrooms.
+   * Returns a function that tears down the subscription.
+   */
+  static async subscribeAll(handler: ChatroomEventHandler): Promise<() => Promise<void>> {
+    const pattern = `${this.CHANNEL_PREFIX}*`;
+
+    // Subscriber connections cannot issue regular commands, so use a dedicated one
+    const subscriber = RedisConfig.getRedisClient();
+
+    subscriber.on('pmessage', (_pattern: string, _channel: string, message: string) => {
+      try {
+        handler(JSON.parse(message) as ChatroomEvent);
+      } catch (error) {
+        this.logger.error('Failed to handle chatroom event:', error);
+      }
+    });
+
+    subscriber.on('error', (error: Error) => {
+      this.logger.error('Chatroom event subscriber error:', error);
+    });
+
+    await subscriber.psubscribe(pattern);
+    this.logger.info('Subscribed to chatroom events');
+
+    return async () => {
+      try {
+        await subscriber.punsubscribe(pattern);
+      } catch (error) {
+        this.logger.error('Failed to unsubscribe from chatroom events:', error);
+      } finally {
+        subscriber.disconnect();
+      }
+    };
+  }
+}
@@ -0,0 +1,320 @@
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import { Chatroom, Message } from '@prisma/client';
+import { AppConfig } from '../config/app.config';
+import { DatabaseConfig } from '../config/database.config';
+import { Logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/error.middleware';
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type ExportWriter = (chunk: string) => void | Promise<void>;
+
+export interface AccountArchive {
+  fileName: string;
+  sizeBytes: number;
+  chatroomCount: number;
+  expiresAt: Date;
+}
+
+interface ExportRenderer {
+  contentType: string;
+  header(chatroom: Chatroom, exportedAt: Date): string;
+  message(message: Message, index: number): string;
+  footer(messageCount: number): string;
+}
+
+const SENDER_LABELS: Record<string, string> = {
+  user: 'User',
+  ai: 'Assistant',
+};
+
+const senderLabel = (sender: string): string => SENDER_LABELS[sender] ?? sender;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const chatroomMetadata = (chatroom: Chatroom) => ({
+  id: chatroom.id,
+  name: chatroom.name,
+  description: chatroom.description,
+  createdAt: chatroom.createdAt,
+  updatedAt: chatroom.updatedAt,
+  systemPrompt: chatroom.systemPrompt,
+  modelName: chatroom.modelName,
+  parentChatroomId: chatroom.parentChatroomId,
+  forkedFromMessageId: chatroom.forkedFromMessageId,
+});
+
+const RENDERERS: Record<ExportFormat, ExportRenderer> = {
+  md: {
+    contentType: 'text/markdown; charset=utf-8',
+    header: (chatroom, exportedAt) => [
+      `# ${chatroom.name}`,
+      '',
+      ...(chatroom.description ? [`> ${chatroom.description}`, ''] : []),
+      `- Chatroom ID: ${chatroom.id}`,
+      `- Created: ${chatroom.createdAt.toISOString()}`,
+      `- Exported: ${exportedAt.toISOString()}`,
+      ...(chatroom.modelName ? [`- Model: ${chatroom.modelName}`] : []),
+      '',
+      '---',
+      '',
+      '',
+    ].join('\n'),
+    message: (message) =>
+      `### ${senderLabel(message.sender)} · ${message.createdAt.toISOString()}\n\n${message.content}\n\n`,
+    footer: (messageCount) => `---\n\n_${messageCount} messages_\n`,
+  },
+
+  json: {
+    contentType: 'application/json; charset=utf-8',
+    header: (chatroom, exportedAt) =>
+      `{"exportedAt":${JSON.stringify(exportedAt)},"chatroom":${JSON.stringify(chatroomMetadata(chatroom))},"messages":[`,
+    message: (message, index) =>
+      (index > 0 ? ',' : '') +
+      JSON.stringify({
+        id: message.id,
+        sender: message.sender,
+        senderLabel: senderLabel(message.sender),
+        messageType: message.messageType,
+        content: message.content,
+        createdAt: message.createdAt,
+      }),
+    footer: (messageCount) => `],"messageCount":${messageCount}}\n`,
+  },
+
+  html: {
+    contentType: 'text/html; charset=utf-8',
+    header: (chatroom, exportedAt) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chatroom.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  .meta { color: #59636e; font-size: 0.875rem; }
+  .message { border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message.user { background: #ddf4ff; }
+  .message.ai { background: #f6f8fa; }
+  .sender { font-weight: 600; }
+  .content { white-space: pre-wrap; margin-top: 0.5rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(chatroom.name)}</h1>
+${chatroom.description ? `<p>${escapeHtml(chatroom.description)}</p>\n` : ''}<p class="meta">Created ${chatroom.createdAt.toISOString()} · Exported ${exportedAt.toISOString()}</p>
+`,
+    message: (message) => `<div class="message ${escapeHtml(message.sender)}">
+  <div><span class="sender">${escapeHtml(senderLabel(message.sender))}</span> <time class="meta" datetime="${message.createdAt.toISOString()}">${message.createdAt.toISOString()}</time></div>
+  <div class="content">${escapeHtml(message.content)}</div>
+</div>
+`,
+    footer: (messageCount) => `<p class="meta">${messageCount} messages</p>
+</body>
+</html>
+`,
+  },
+};
+
+export class ExportService {
+  private static logger = Logger.getInstance();
+  private static readonly BATCH_SIZE = 500;
+
+  /**
+   * Validate an export format query value
+   */
+  static parseFormat(format: unknown): ExportFormat {
+    const value = typeof format === 'string' ? format.toLowerCase() : 'md';
+    if (!(EXPORT_FORMATS as readonly string[]).includes(value)) {
+      throw new ValidationError(`Export format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return value as ExportFormat;
+  }
+
+  /**
+   * Content type of an export format
+   */
+  static getContentType(format: ExportFormat): string {
+    return RENDERERS[format].contentType;
+  }
+
+  /**
+   * Download file name for a chatroom export
+   */
+  static getFileName(chatroom: Chatroom, format: ExportFormat): string {
+    const slug = chatroom.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'chatroom';
+    return `${slug}-${chatroom.id}.${format}`;
+  }
+
+  /**
+   * Write a whole conversation in the given format, loading messages in batches
+   * so long chatrooms never sit in memory at once
+   */
+  static async writeChatroom(chatroom: Chatroom, format: ExportFormat, write: ExportWriter): Promise<number> {
+    const renderer = RENDERERS[format];
+    const db = DatabaseConfig.getClient();
+    let count = 0;
+    let cursor: string | undefined;
+
+    await write(renderer.header(chatroom, new Date()));
+
+    while (true) {
+      const batch: Message[] = await db.message.findMany({
+        where: { chatroomId: chatroom.id, isActive: true },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: this.BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const message of batch) {
+        await write(renderer.message(message, count));
+        count++;
+      }
+
+      const last = batch[batch.length - 1];
+      if (!last || batch.length < this.BATCH_SIZE) break;
+      cursor = last.id;
+    }
+
+    await write(renderer.footer(count));
+
+    this.logger.debug(`Exported ${count} messages from chatroom ${chatroom.id} as ${format}`);
+    return count;
+  }
+
+  /**
+   * Absolute path of a generated export archive
+   */
+  static getExportPath(fileName: string): string {
+    return path.resolve(AppConfig.exportDir, path.basename(fileName));
+  }
+
+  /**
+   * Build a zip of every chatroom the user owns (Markdown and JSON per room,
+   * plus an account.json index)
+   */
+  static async createAccountArchive(
+    userId: string,
+    fileName: string,
+    onProgress?: (done: number, total: number) => void | Promise<void>
+  ): Promise<AccountArchive> {
+    const db = DatabaseConfig.getClient();
+
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        mobileNumber: true,
+        name: true,
+        subscriptionTier: true,
+        createdAt: true
+      }
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const chatrooms = await db.chatroom.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    await fs.promises.mkdir(path.resolve(AppConfig.exportDir), { recursive: true });
+    const filePath = this.getExportPath(fileName);
+    const partialPath = `${filePath}.part`;
+
+    const output = fs.createWriteStream(partialPath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+    archive.pipe(output);
+
+    try {
+      const index = [];
+
+      for (const [position, chatroom] of chatrooms.entries()) {
+        const folder = `chatrooms/${this.getFileName(chatroom, 'md').replace(/\.md$/, '')}`;
+        let messageCount = 0;
+
+        for (const format of ['md', 'json'] as const) {
+          const parts: string[] = [];
+          messageCount = await this.writeChatroom(chatroom, format, chunk => {
+            parts.push(chunk);
+          });
+          archive.append(parts.join(''), { name: `${folder}/conversation.${format}` });
+        }
+
+        index.push({ ...chatroomMetadata(chatroom), messageCount, folder });
+        await onProgress?.(position + 1, chatrooms.length);
+      }
+
+      archive.append(JSON.stringify({ exportedAt: new Date(), user, chatrooms: index }, null, 2), {
+        name: 'account.json'
+      });
+
+      await archive.finalize();
+      await finished;
+      await fs.promises.rename(partialPath, filePath);
+    } catch (error) {
+      archive.abort();
+      await fs.promises.rm(partialPath, { force: true });
+      throw error;
+    }
+
+    const { size } = await fs.promises.stat(filePath);
+
+    this.logger.info(`Account export created for user ${userId}: ${fileName} (${size} bytes)`);
+    return {
+      fileName,
+      sizeBytes: size,
+      chatroomCount: chatrooms.length,
+      expiresAt: new Date(Date.now() + AppConfig.exportRetentionHours * 60 * 60 * 1000)
+    };
+  }
+
+  /**
+   * Delete export archives older than the retention period
+   */
+  static async removeExpiredExports(): Promise<number> {
+    const directory = path.resolve(AppConfig.exportDir);
+    const cutoff = Date.now() - AppConfig.exportRetentionHours * 60 * 60 * 1000;
+    let removed = 0;
+
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(directory);
+    } catch {
+      return 0;
+    }
+
+    for (const entry of entries) {
+      const filePath = path.join(directory, entry);
+      const { mtimeMs } = await fs.promises.stat(filePath);
+      if (mtimeMs < cutoff) {
+        await fs.promises.rm(filePath, { force: true });
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.info(`Removed ${removed} expired export archives`);
+    }
+    return removed;
+  }
+}
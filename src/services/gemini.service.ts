@@ -1,156 +1,105 @@
-import { GoogleGenerativeAI, GenerativeModel, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
 import { Logger } from '../utils/logger';
-import { AppConfig } from '../config/app.config';
+import { LLMProvider, LLMMessage, LLMContext, LLMResponse, LLMChunkHandler, createLLMProvider } from './llm';
 
-export interface GeminiMessage {
-  role: 'user' | 'model';
-  parts: string[];
-}
-
-export interface GeminiContext {
-  chatRoomId: string;
-  userId: string;
-  conversationHistory: GeminiMessage[];
-  systemPrompt?: string;
-  temperature?: number;
-  maxTokens?: number;
-}
-
-export interface GeminiResponse {
-  content: string;
-  usage: {
-    promptTokens: number;
-    responseTokens: number;
-    totalTokens: number;
-  };
-  metadata: {
-    model: string;
-    finishReason: string;
-    safetyRatings: any[];
-  };
-}
+export type GeminiMessage = LLMMessage;
+export type GeminiContext = LLMContext;
+export type GeminiResponse = LLMResponse;
 
 export class GeminiService {
   private static instance: GeminiService;
-  private genAI: GoogleGenerativeAI;
-  private model: GenerativeModel;
+  private provider: LLMProvider;
   private logger = Logger.getInstance();
 
-  private constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is required');
-    }
-
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({
-      model: process.env.GEMINI_MODEL || 'gemini-1.5-flash',
-      generationConfig: {
-        temperature: parseFloat(process.env.GEMINI_TEMPERATURE || '0.7'),
-        topK: parseInt(process.env.GEMINI_TOP_K || '40'),
-        topP: parseFloat(process.env.GEMINI_TOP_P || '0.95'),
-        maxOutputTokens: parseInt(process.env.GEMINI_MAX_TOKENS || '2048'),
-      },
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-      ],
-    });
+  private constructor(provider: LLMProvider) {
+    this.provider = provider;
+    this.logger.info(`LLM provider initialized: ${provider.name} (${provider.model})`);
   }
 
   static getInstance(): GeminiService {
     if (!GeminiService.instance) {
-      GeminiService.instance = new GeminiService();
+      GeminiService.instance = new GeminiService(createLLMProvider());
     }
     return GeminiService.instance;
   }
 
   /**
-   * Generate a response using Gemini API
+   * Replace the active provider (e.g. with a fixture provider in tests)
+   */
+  static useProvider(provider: LLMProvider): GeminiService {
+    GeminiService.instance = new GeminiService(provider);
+    return GeminiService.instance;
+  }
+
+  /**
+   * Get the active LLM provider
+   */
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Generate a response using the configured LLM provider
    */
   async generateResponse(
     userMessage: string,
     context: GeminiContext
   ): Promise<GeminiResponse> {
     try {
-      this.logger.info(`Generating Gemini response for chatroom: ${context.chatRoomId}`);
-
-      // Create chat session
-      const chat = this.model.startChat({
-        history: this.formatHistoryForGemini(context.conversationHistory),
-        generationConfig: {
-          temperature: context.temperature || 0.7,
-          maxOutputTokens: context.maxTokens || 2048,
-        },
-      });
+      this.logger.info(`Generating ${this.provider.name} response for chatroom: ${context.chatRoomId}`);
 
-      // Add system prompt if provided
-      let prompt = userMessage;
-      if (context.systemPrompt) {
-        prompt = `${context.systemPrompt}\n\nUser: ${userMessage}`;
-      }
-
-      // Generate response
-      const result = await chat.sendMessage(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      // Get response metadata (simplified for now)
-      const geminiResponse: GeminiResponse = {
-        content: text,
-        usage: {
-          promptTokens: 0, // Not available in current API
-          responseTokens: 0, // Not available in current API
-          totalTokens: 0, // Not available in current API
-        },
-        metadata: {
-          model: 'gemini-1.5-flash',
-          finishReason: 'STOP',
-          safetyRatings: [],
-        },
-      };
+      const response = await this.provider.generate(userMessage, context);
 
-      this.logger.info(`Gemini response generated successfully`, {
+      this.logger.info(`LLM response generated successfully`, {
         chatRoomId: context.chatRoomId,
-        tokensUsed: geminiResponse.usage.totalTokens,
-        finishReason: geminiResponse.metadata.finishReason,
+        provider: this.provider.name,
+        tokensUsed: response.usage.totalTokens,
+        finishReason: response.metadata.finishReason,
       });
 
-      return geminiResponse;
+      return response;
     } catch (error) {
-      this.logger.error('Gemini API call failed:', error);
-      throw new Error(`Failed to generate Gemini response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.error('LLM API call failed:', error);
+      throw new Error(`Failed to generate ${this.provider.name} response: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Format conversation history for Gemini API
+   * Generate a response using the provider's streaming API, invoking onChunk
+   * for each text fragment as it arrives. Resolves with the aggregated response.
    */
-  private formatHistoryForGemini(history: GeminiMessage[]): any[] {
-    return history.map(message => ({
-      role: message.role,
-      parts: message.parts,
-    }));
+  async generateResponseStream(
+    userMessage: string,
+    context: GeminiContext,
+    onChunk: LLMChunkHandler
+  ): Promise<GeminiResponse> {
+    try {
+      this.logger.info(`Streaming ${this.provider.name} response for chatroom: ${context.chatRoomId}`);
+
+      const response = await this.provider.generateStream(userMessage, context, onChunk);
+
+      this.logger.info(`LLM response streamed successfully`, {
+        chatRoomId: context.chatRoomId,
+        provider: this.provider.name,
+        tokensUsed: response.usage.totalTokens,
+        finishReason: response.metadata.finishReason,
+      });
+
+      return response;
+    } catch (error) {
+      this.logger.error('LLM streaming API call failed:', error);
+      throw new Error(`Failed to stream ${this.provider.name} response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   /**
-   * Generate a system prompt based on context
+   * Generate a system prompt based on context.
+   * A chatroom persona (context.systemPrompt) replaces the default guidelines.
    */
   generateSystemPrompt(context: Partial<GeminiContext>): string {
+    if (context.systemPrompt) {
+      return context.systemPrompt;
+    }
+
     const basePrompt = `You are a helpful AI assistant in a chatroom. 
     
 Guidelines:
@@ -175,17 +124,9 @@ Context: This is a chatroom conversation.`;
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const testResponse = await this.generateResponse('Hello', {
-        chatRoomId: 'test',
-        userId: 'test',
-        conversationHistory: [],
-        systemPrompt: 'You are a test assistant. Respond with "Hello! I am working correctly."',
-        maxTokens: 50,
-      });
-
-      return testResponse.content.includes('working correctly');
+      return await this.provider.healthCheck();
     } catch (error) {
-      this.logger.error('Gemini health check failed:', error);
+      this.logger.error(`${this.provider.name} health check failed:`, error);
       return false;
     }
   }
@@ -195,20 +136,14 @@ Context: This is a chatroom conversation.`;
    */
   async getModelInfo(): Promise<any> {
     try {
-      return {
-        currentModel: 'gemini-1.5-flash',
-        availableModels: ['gemini-1.5-flash', 'gemini-1.5-pro'],
-        modelInfo: {
-          name: 'gemini-1.5-flash',
-          displayName: 'Gemini 1.5 Flash',
-        },
-      };
+      return await this.provider.getModelInfo();
     } catch (error) {
       this.logger.error('Failed to get model info:', error);
       return {
-        currentModel: 'gemini-1.5-flash',
+        provider: this.provider.name,
+        currentModel: this.provider.model,
         error: 'Failed to fetch model information',
       };
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,286 @@
+import { randomUUID } from 'crypto';
+import { DatabaseConfig } from '../config/database.config';
+import { CacheService } from './cache.service';
+import { ChatroomService } from './chatroom.service';
+import { Logger } from '../utils/logger';
+import { ValidationError } from '../middleware/error.middleware';
+
+export const IMPORT_SOURCES = ['chatgpt', 'gemini'] as const;
+export type ImportSource = typeof IMPORT_SOURCES[number];
+
+export interface ImportedMessage {
+  sender: 'user' | 'ai';
+  content: string;
+  createdAt: Date;
+}
+
+export interface ImportedConversation {
+  title: string;
+  createdAt: Date;
+  messages: ImportedMessage[];
+}
+
+export interface ImportResult {
+  source: ImportSource;
+  chatroomIds: string[];
+  conversationCount: number;
+  messageCount: number;
+  skippedCount: number;
+}
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|pre|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const fromEpochSeconds = (value: unknown): Date | null =>
+  typeof value === 'number' && Number.isFinite(value) ? new Date(value * 1000) : null;
+
+export class ImportService {
+  private static logger = Logger.getInstance();
+
+  /**
+   * Validate an import source field; "auto" (or nothing) means detect from the file
+   */
+  static parseSource(source: unknown): ImportSource | 'auto' {
+    const value = typeof source === 'string' && source ? source.toLowerCase() : 'auto';
+    if (value !== 'auto' && !(IMPORT_SOURCES as readonly string[]).includes(value)) {
+      throw new ValidationError(`Import source must be one of: auto, ${IMPORT_SOURCES.join(', ')}`);
+    }
+    return value as ImportSource | 'auto';
+  }
+
+  /**
+   * Work out which product an export file came from
+   */
+  static detectSource(data: unknown): ImportSource {
+    const items = Array.isArray(data) ? data : [];
+    const sample = items.find(item => item && typeof item === 'object');
+
+    if (sample && 'mapping' in sample) {
+      return 'chatgpt';
+    }
+    if (sample && 'time' in sample && ('title' in sample || 'safeHtmlItem' in sample)) {
+      return 'gemini';
+    }
+
+    throw new ValidationError(
+      'Unrecognised export file; upload a ChatGPT conversations.json or a Gemini Apps MyActivity.json'
+    );
+  }
+
+  /**
+   * Parse an export file into conversations
+   */
+  static parse(data: unknown, source: ImportSource | 'auto'): { source: ImportSource; conversations: ImportedConversation[] } {
+    const detected = source === 'auto' ? this.detectSource(data) : source;
+
+    if (!Array.isArray(data)) {
+      throw new ValidationError('Export file must contain a JSON array');
+    }
+
+    const conversations = detected === 'chatgpt'
+      ? this.parseChatGPT(data)
+      : this.parseGeminiActivity(data);
+
+    return { source: detected, conversations };
+  }
+
+  /**
+   * ChatGPT conversations.json: each conversation is a tree of nodes in `mapping`;
+   * the branch that was on screen is found by walking up from `current_node`
+   */
+  private static parseChatGPT(data: any[]): ImportedConversation[] {
+    const conversations: ImportedConversation[] = [];
+
+    for (const conversation of data) {
+      const mapping = conversation?.mapping;
+      if (!mapping || typeof mapping !== 'object') {
+        continue;
+      }
+
+      const branch: any[] = [];
+      const visited = new Set<string>();
+      let nodeId: string | null | undefined = conversation.current_node;
+
+      while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+        visited.add(nodeId);
+        branch.unshift(mapping[nodeId]);
+        nodeId = mapping[nodeId].parent;
+      }
+
+      const fallbackTime = fromEpochSeconds(conversation.create_time) ?? new Date();
+      const messages: ImportedMessage[] = [];
+
+      for (const node of branch) {
+        const message = node?.message;
+        const role = message?.author?.role;
+        if (role !== 'user' && role !== 'assistant') {
+          continue;
+        }
+        if (message.metadata?.is_visually_hidden_from_conversation) {
+          continue;
+        }
+
+        const parts: unknown[] = Array.isArray(message.content?.parts) ? message.content.parts : [];
+        const content = parts
+          .filter((part): part is string => typeof part === 'string')
+          .join('\n')
+          .trim();
+        if (!content) {
+          continue;
+        }
+
+        const previous = messages[messages.length - 1];
+        messages.push({
+          sender: role === 'user' ? 'user' : 'ai',
+          content,
+          createdAt: fromEpochSeconds(message.create_time) ?? previous?.createdAt ?? fallbackTime,
+        });
+      }
+
+      conversations.push({
+        title: typeof conversation.title === 'string' && conversation.title.trim()
+          ? conversation.title.trim()
+          : 'Imported conversation',
+        createdAt: fallbackTime,
+        messages,
+      });
+    }
+
+    return conversations;
+  }
+
+  /**
+   * Google Takeout Gemini Apps activity: a flat list of prompts with the reply
+   * as HTML. Takeout keeps no conversation boundaries, so prompts are grouped by day.
+   */
+  private static parseGeminiActivity(data: any[]): ImportedConversation[] {
+    const byDay = new Map<string, ImportedConversation>();
+
+    const entries = data
+      .filter(item => typeof item?.title === 'string' && item.title.startsWith('Prompted '))
+      .map(item => ({ item, time: new Date(item.time) }))
+      .filter(({ time }) => !Number.isNaN(time.getTime()))
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    for (const { item, time } of entries) {
+      const day = time.toISOString().slice(0, 10);
+      let conversation = byDay.get(day);
+      if (!conversation) {
+        conversation = { title: `Gemini ${day}`, createdAt: time, messages: [] };
+        byDay.set(day, conversation);
+      }
+
+      const prompt = item.title.slice('Prompted '.length).trim();
+      if (!prompt) {
+        continue;
+      }
+      conversation.messages.push({ sender: 'user', content: prompt, createdAt: time });
+
+      const reply = (Array.isArray(item.safeHtmlItem) ? item.safeHtmlItem : [])
+        .map((part: any) => (typeof part?.html === 'string' ? htmlToText(part.html) : ''))
+        .filter(Boolean)
+        .join('\n\n');
+      if (reply) {
+        // Takeout records a single timestamp; nudge the reply so ordering is stable
+        conversation.messages.push({ sender: 'ai', content: reply, createdAt: new Date(time.getTime() + 1) });
+      }
+    }
+
+    return [...byDay.values()];
+  }
+
+  /**
+   * Create a chatroom per conversation with its original timestamps.
+   * Messages are written directly, so they do not count towards daily usage.
+   */
+  static async importConversations(
+    userId: string,
+    source: ImportSource,
+    conversations: ImportedConversation[],
+    onProgress?: (done: number, total: number) => void | Promise<void>
+  ): Promise<ImportResult> {
+    const db = DatabaseConfig.getClient();
+    const chatroomIds: string[] = [];
+    let messageCount = 0;
+    let skippedCount = 0;
+
+    for (const [position, conversation] of conversations.entries()) {
+      if (conversation.messages.length === 0) {
+        skippedCount++;
+        await onProgress?.(position + 1, conversations.length);
+        continue;
+      }
+
+      const name = await ChatroomService.getAvailableName(userId, conversation.title);
+      const lastMessage = conversation.messages[conversation.messages.length - 1];
+
+      // Link replies to the prompt they answer, as the Gemini worker does
+      let lastUserMessageId: string | null = null;
+      const messages = conversation.messages.map(message => {
+        const id = randomUUID();
+        const replyToId = message.sender === 'ai' ? lastUserMessageId : null;
+        if (message.sender === 'user') {
+          lastUserMessageId = id;
+        }
+        return {
+          id,
+          content: message.content,
+          sender: message.sender,
+          createdAt: message.createdAt,
+          replyToId,
+        };
+      });
+
+      const chatroom = await db.$transaction(async tx => {
+        const created = await tx.chatroom.create({
+          data: {
+            userId,
+            name,
+            description: `Imported from ${source === 'chatgpt' ? 'ChatGPT' : 'Gemini'}`,
+            createdAt: conversation.createdAt,
+            updatedAt: lastMessage?.createdAt ?? conversation.createdAt,
+          }
+        });
+
+        await tx.message.createMany({
+          data: messages.map(message => ({ ...message, chatroomId: created.id }))
+        });
+
+        return created;
+      });
+
+      chatroomIds.push(chatroom.id);
+      messageCount += messages.length;
+      await onProgress?.(position + 1, conversations.length);
+    }
+
+    if (chatroomIds.length > 0) {
+      await CacheService.invalidateUserCache(userId);
+    }
+
+    this.logger.info(`Imported ${chatroomIds.length} ${source} conversations (${messageCount} messages) for user ${userId}`);
+    return {
+      source,
+      chatroomIds,
+      conversationCount: chatroomIds.length,
+      messageCount,
+      skippedCount,
+    };
+  }
+}
@@ -6,6 +6,7 @@ import { Logger } from '../utils/logger';
 interface JWTPayload {
   userId: string;
   mobileNumber: string;
+  sessionId?: string;
   iat?: number;
   exp?: number;
 }
@@ -14,13 +15,14 @@ export class JWTService {
   private static logger = Logger.getInstance();
 
   /**
-   * Generate JWT token for authenticated user
+   * Generate a short-lived access token for a login session
    */
-  static generateToken(userId: string, mobileNumber: string): string {
+  static generateToken(userId: string, mobileNumber: string, sessionId: string): string {
     try {
       const payload: JWTPayload = {
         userId,
         mobileNumber,
+        sessionId,
       };
 
       const token = jwt.sign(payload, AppConfig.jwtSecret, {
@@ -37,6 +39,39 @@ export class JWTService {
     }
   }
 
+  /**
+   * Generate a short-lived token proving the first login factor passed,
+   * exchanged for a session once the two-factor code is checked
+   */
+  static generateTwoFactorChallenge(userId: string): { token: string; expiresAt: Date } {
+    const token = jwt.sign({ userId }, AppConfig.jwtSecret, {
+      expiresIn: '5m',
+      issuer: 'gemini-chatroom-backend',
+      audience: 'gemini-chatroom-2fa',
+    });
+
+    return {
+      token,
+      expiresAt: this.getTokenExpiration(token) || new Date(Date.now() + 5 * 60 * 1000),
+    };
+  }
+
+  /**
+   * Verify a two-factor challenge token and return its user ID
+   */
+  static verifyTwoFactorChallenge(token: string): string {
+    try {
+      const decoded = jwt.verify(token, AppConfig.jwtSecret, {
+        issuer: 'gemini-chatroom-backend',
+        audience: 'gemini-chatroom-2fa',
+      }) as { userId: string };
+
+      return decoded.userId;
+    } catch (error) {
+      throw new AuthenticationError('Two-factor challenge is invalid or has expired');
+    }
+  }
+
   /**
    * Verify JWT token and return payload
    */
@@ -115,25 +150,4 @@ export class JWTService {
     
     return authHeader.substring(7);
   }
-
-  /**
-   * Generate refresh token (for future implementation)
-   */
-  static generateRefreshToken(userId: string): string {
-    try {
-      const payload = {
-        userId,
-        type: 'refresh',
-      };
-
-      return jwt.sign(payload, AppConfig.jwtSecret, {
-        expiresIn: '30d',
-        issuer: 'gemini-chatroom-backend',
-        audience: 'gemini-chatroom-users',
-      });
-    } catch (error) {
-      this.logger.error('Refresh token generation failed:', error);
-      throw new AuthenticationError('Refresh token generation failed');
-    }
-  }
-} 
\ No newline at end of file
+}
\ No newline at end of file
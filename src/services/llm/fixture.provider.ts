@@ -0,0 +1,91 @@
+import fs from 'fs';
+import { AppConfig } from '../../config/app.config';
+import { LLMProvider, LLMContext, LLMResponse, LLMChunkHandler } from './llm.provider';
+
+/**
+ * Deterministic offline provider for tests and local development.
+ *
+ * Replies come from a JSON fixture file mapping exact user messages to
+ * replies (with an optional "*" fallback). Without a fixture file, or when
+ * no entry matches, the user message is echoed back.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  readonly model = 'fixture-echo';
+  private fixtures: Record<string, string> = {};
+
+  constructor() {
+    if (AppConfig.llmFixturePath) {
+      const raw = fs.readFileSync(AppConfig.llmFixturePath, 'utf8');
+      this.fixtures = JSON.parse(raw) as Record<string, string>;
+    }
+  }
+
+  async generate(userMessage: string, context: LLMContext): Promise<LLMResponse> {
+    return this.buildResponse(this.reply(userMessage), userMessage, context);
+  }
+
+  async generateStream(
+    userMessage: string,
+    context: LLMContext,
+    onChunk: LLMChunkHandler
+  ): Promise<LLMResponse> {
+    const content = this.reply(userMessage);
+
+    // Emit word by word so streaming consumers see more than one chunk
+    for (const chunk of content.match(/\S+\s*/g) || []) {
+      await onChunk(chunk);
+    }
+
+    return this.buildResponse(content, userMessage, context);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  async getModelInfo(): Promise<any> {
+    return {
+      provider: this.name,
+      currentModel: this.model,
+      fixtureFile: AppConfig.llmFixturePath || null,
+      fixtureCount: Object.keys(this.fixtures).length,
+      modelInfo: {
+        name: this.model,
+        displayName: 'Local Fixture Provider',
+      },
+    };
+  }
+
+  private reply(userMessage: string): string {
+    return this.fixtures[userMessage] ?? this.fixtures['*'] ?? `Echo: ${userMessage}`;
+  }
+
+  private buildResponse(content: string, userMessage: string, context: LLMContext): LLMResponse {
+    // Whitespace-separated words stand in for tokens
+    const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+    const promptText = [
+      context.systemPrompt || '',
+      ...context.conversationHistory.map(message => message.parts.join(' ')),
+      userMessage,
+    ].join(' ');
+
+    const promptTokens = countWords(promptText);
+    const responseTokens = countWords(content);
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        responseTokens,
+        totalTokens: promptTokens + responseTokens,
+      },
+      metadata: {
+        model: context.model || this.model,
+        finishReason: 'STOP',
+        safetyRatings: [],
+      },
+    };
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  ChatSession,
+  EnhancedGenerateContentResponse,
+  HarmCategory,
+  HarmBlockThreshold,
+} from '@google/generative-ai';
+import { LLMProvider, LLMContext, LLMResponse, LLMMessage, LLMChunkHandler } from './llm.provider';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private genAI: GoogleGenerativeAI;
+  private generativeModel: GenerativeModel;
+
+  constructor() {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required for the gemini provider');
+    }
+
+    this.model = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.generativeModel = this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: parseFloat(process.env.GEMINI_TEMPERATURE || '0.7'),
+        topK: parseInt(process.env.GEMINI_TOP_K || '40'),
+        topP: parseFloat(process.env.GEMINI_TOP_P || '0.95'),
+        maxOutputTokens: parseInt(process.env.GEMINI_MAX_TOKENS || '2048'),
+      },
+      safetySettings: this.safetySettings(),
+    });
+  }
+
+  async generate(userMessage: string, context: LLMContext): Promise<LLMResponse> {
+    const chat = this.startChat(context);
+
+    const result = await chat.sendMessage(this.buildPrompt(userMessage, context));
+    const response = await result.response;
+
+    return this.buildResponse(response, context);
+  }
+
+  async generateStream(
+    userMessage: string,
+    context: LLMContext,
+    onChunk: LLMChunkHandler
+  ): Promise<LLMResponse> {
+    const chat = this.startChat(context);
+
+    const result = await chat.sendMessageStream(this.buildPrompt(userMessage, context));
+    for await (const chunk of result.stream) {
+      const chunkText = chunk.text();
+      if (chunkText) {
+        await onChunk(chunkText);
+      }
+    }
+
+    const response = await result.response;
+    return this.buildResponse(response, context);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    const testResponse = await this.generate('Hello', {
+      chatRoomId: 'test',
+      userId: 'test',
+      conversationHistory: [],
+      systemPrompt: 'You are a test assistant. Respond with "Hello! I am working correctly."',
+      maxTokens: 50,
+    });
+
+    return testResponse.content.includes('working correctly');
+  }
+
+  async getModelInfo(): Promise<any> {
+    return {
+      provider: this.name,
+      currentModel: this.model,
+      availableModels: ['gemini-1.5-flash', 'gemini-1.5-pro'],
+      modelInfo: {
+        name: this.model,
+        displayName: this.model === 'gemini-1.5-pro' ? 'Gemini 1.5 Pro' : 'Gemini 1.5 Flash',
+      },
+    };
+  }
+
+  /**
+   * Start a chat session seeded with the conversation history
+   */
+  private startChat(context: LLMContext): ChatSession {
+    const generativeModel = context.model && context.model !== this.model
+      ? this.genAI.getGenerativeModel({ model: context.model, safetySettings: this.safetySettings() })
+      : this.generativeModel;
+
+    return generativeModel.startChat({
+      history: this.formatHistory(context.conversationHistory),
+      generationConfig: {
+        temperature: context.temperature ?? 0.7,
+        maxOutputTokens: context.maxTokens || 2048,
+        ...(context.topP !== undefined && { topP: context.topP }),
+      },
+    });
+  }
+
+  /**
+   * Safety settings applied to every model
+   */
+  private safetySettings() {
+    return [
+      {
+        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+      },
+      {
+        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+      },
+      {
+        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+      },
+      {
+        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+      },
+    ];
+  }
+
+  /**
+   * Format conversation history for Gemini API
+   */
+  private formatHistory(history: LLMMessage[]): any[] {
+    return history.map(message => ({
+      role: message.role,
+      parts: message.parts,
+    }));
+  }
+
+  /**
+   * Prefix the user message with the system prompt if provided
+   */
+  private buildPrompt(userMessage: string, context: LLMContext): string {
+    if (context.systemPrompt) {
+      return `${context.systemPrompt}\n\nUser: ${userMessage}`;
+    }
+    return userMessage;
+  }
+
+  /**
+   * Wrap a Gemini response, with its token usage and safety metadata, in an LLMResponse
+   */
+  private buildResponse(response: EnhancedGenerateContentResponse, context: LLMContext): LLMResponse {
+    const candidate = response.candidates?.[0];
+    const usage = response.usageMetadata;
+
+    return {
+      content: response.text(),
+      usage: {
+        promptTokens: usage?.promptTokenCount || 0,
+        responseTokens: usage?.candidatesTokenCount || 0,
+        totalTokens: usage?.totalTokenCount || 0,
+      },
+      metadata: {
+        model: context.model || this.model,
+        finishReason: candidate?.finishReason || 'STOP',
+        safetyRatings: candidate?.safetyRatings || [],
+      },
+    };
+  }
+}
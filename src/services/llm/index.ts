@@ -0,0 +1,30 @@
+import { AppConfig } from '../../config/app.config';
+import { LLMProvider } from './llm.provider';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAICompatibleProvider } from './openai.provider';
+import { FixtureProvider } from './fixture.provider';
+
+export * from './llm.provider';
+export { GeminiProvider } from './gemini.provider';
+export { OpenAICompatibleProvider } from './openai.provider';
+export { FixtureProvider } from './fixture.provider';
+export { ModelPricing, getModelPricing, calculateCost } from './pricing';
+
+export const LLM_PROVIDERS = ['gemini', 'openai', 'fixture'] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+/**
+ * Create the LLM provider selected by the LLM_PROVIDER setting
+ */
+export function createLLMProvider(name: string = AppConfig.llmProvider): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'fixture':
+      return new FixtureProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+}
@@ -0,0 +1,61 @@
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: string[];
+}
+
+export interface LLMContext {
+  chatRoomId: string;
+  userId: string;
+  conversationHistory: LLMMessage[];
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  usage: {
+    promptTokens: number;
+    responseTokens: number;
+    totalTokens: number;
+  };
+  metadata: {
+    model: string;
+    finishReason: string;
+    safetyRatings: any[];
+  };
+}
+
+export type LLMChunkHandler = (text: string) => void | Promise<void>;
+
+/**
+ * A backend capable of generating chat replies.
+ * GeminiService and GeminiWorker depend on this rather than a specific SDK.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  /**
+   * Generate a complete reply
+   */
+  generate(userMessage: string, context: LLMContext): Promise<LLMResponse>;
+
+  /**
+   * Generate a reply, invoking onChunk for each text fragment as it arrives.
+   * Resolves with the aggregated response.
+   */
+  generateStream(userMessage: string, context: LLMContext, onChunk: LLMChunkHandler): Promise<LLMResponse>;
+
+  /**
+   * Check that the provider is reachable and answering
+   */
+  healthCheck(): Promise<boolean>;
+
+  /**
+   * Describe the configured model
+   */
+  getModelInfo(): Promise<any>;
+}
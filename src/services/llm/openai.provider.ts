@@ -0,0 +1,216 @@
+import { AppConfig } from '../../config/app.config';
+import { Logger } from '../../utils/logger';
+import { LLMProvider, LLMContext, LLMResponse, LLMChunkHandler } from './llm.provider';
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Adapter for any server implementing the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI, vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.baseUrl = AppConfig.openaiBaseUrl.replace(/\/+$/, '');
+    this.apiKey = AppConfig.openaiApiKey;
+    this.model = AppConfig.openaiModel;
+  }
+
+  async generate(userMessage: string, context: LLMContext): Promise<LLMResponse> {
+    const response = await this.request(this.buildBody(userMessage, context, false));
+    const body: any = await response.json();
+    const choice = body.choices?.[0];
+
+    return this.buildResponse(
+      choice?.message?.content || '',
+      choice?.finish_reason,
+      body.usage,
+      body.model
+    );
+  }
+
+  async generateStream(
+    userMessage: string,
+    context: LLMContext,
+    onChunk: LLMChunkHandler
+  ): Promise<LLMResponse> {
+    const response = await this.request(this.buildBody(userMessage, context, true));
+    if (!response.body) {
+      throw new Error('OpenAI-compatible provider returned an empty stream');
+    }
+
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    let buffer = '';
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: ChatCompletionUsage | undefined;
+    let model: string | undefined;
+
+    // Server-Sent Events: one `data:` line per chunk, terminated by `data: [DONE]`
+    const handleLine = async (line: string): Promise<void> => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+
+      // One bad chunk should not cost the rest of the reply
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch (error) {
+        this.logger.warn('Skipping malformed chunk from OpenAI-compatible stream:', error);
+        return;
+      }
+
+      const choice = chunk.choices?.[0];
+      const delta: string | undefined = choice?.delta?.content;
+
+      if (delta) {
+        content += delta;
+        await onChunk(delta);
+      }
+      if (choice?.finish_reason) finishReason = choice.finish_reason;
+      if (chunk.usage) usage = chunk.usage;
+      if (chunk.model) model = chunk.model;
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        await handleLine(line);
+      }
+    }
+
+    // The last line may arrive without a trailing newline
+    buffer += decoder.decode();
+    if (buffer) {
+      await handleLine(buffer);
+    }
+
+    return this.buildResponse(content, finishReason, usage, model);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    const testResponse = await this.generate('Hello', {
+      chatRoomId: 'test',
+      userId: 'test',
+      conversationHistory: [],
+      systemPrompt: 'You are a test assistant. Respond briefly.',
+      maxTokens: 20,
+    });
+
+    return testResponse.content.length > 0;
+  }
+
+  async getModelInfo(): Promise<any> {
+    return {
+      provider: this.name,
+      currentModel: this.model,
+      baseUrl: this.baseUrl,
+      modelInfo: {
+        name: this.model,
+        displayName: this.model,
+      },
+    };
+  }
+
+  private async request(body: Record<string, unknown>): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible provider returned ${response.status}: ${errorText}`);
+    }
+
+    return response;
+  }
+
+  private buildBody(userMessage: string, context: LLMContext, stream: boolean): Record<string, unknown> {
+    const messages: ChatCompletionMessage[] = [];
+
+    if (context.systemPrompt) {
+      messages.push({ role: 'system', content: context.systemPrompt });
+    }
+
+    for (const message of context.conversationHistory) {
+      messages.push({
+        role: message.role === 'model' ? 'assistant' : 'user',
+        content: message.parts.join('\n'),
+      });
+    }
+
+    messages.push({ role: 'user', content: userMessage });
+
+    const body: Record<string, unknown> = {
+      model: context.model || this.model,
+      messages,
+      temperature: context.temperature ?? 0.7,
+      max_tokens: context.maxTokens || 2048,
+      stream,
+    };
+
+    if (context.topP !== undefined) {
+      body.top_p = context.topP;
+    }
+
+    if (stream) {
+      body.stream_options = { include_usage: true };
+    }
+
+    return body;
+  }
+
+  private buildResponse(
+    content: string,
+    finishReason: string | undefined,
+    usage: ChatCompletionUsage | undefined,
+    model: string | undefined
+  ): LLMResponse {
+    return {
+      content,
+      usage: {
+        promptTokens: usage?.prompt_tokens || 0,
+        responseTokens: usage?.completion_tokens || 0,
+        totalTokens: usage?.total_tokens || 0,
+      },
+      metadata: {
+        model: model || this.model,
+        finishReason: finishReason ? finishReason.toUpperCase() : 'STOP',
+        safetyRatings: [],
+      },
+    };
+  }
+}
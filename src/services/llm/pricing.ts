@@ -0,0 +1,49 @@
+import { AppConfig } from '../../config/app.config';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Price in USD per million tokens
+ */
+export interface ModelPricing {
+  prompt: number;
+  response: number;
+}
+
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'gemini-1.5-flash': { prompt: 0.075, response: 0.3 },
+  'gemini-1.5-pro': { prompt: 1.25, response: 5 },
+  'gpt-4o-mini': { prompt: 0.15, response: 0.6 },
+};
+
+let pricing: Record<string, ModelPricing> | null = null;
+
+/**
+ * Pricing table: built-in defaults merged with LLM_PRICING overrides
+ */
+export function getModelPricing(): Record<string, ModelPricing> {
+  if (!pricing) {
+    pricing = { ...DEFAULT_PRICING };
+
+    if (AppConfig.llmPricing) {
+      try {
+        Object.assign(pricing, JSON.parse(AppConfig.llmPricing) as Record<string, ModelPricing>);
+      } catch (error) {
+        Logger.getInstance().error('Ignoring invalid LLM_PRICING value:', error);
+      }
+    }
+  }
+
+  return pricing;
+}
+
+/**
+ * Cost in USD of a single generation; unknown models cost nothing
+ */
+export function calculateCost(model: string, promptTokens: number, responseTokens: number): number {
+  const modelPricing = getModelPricing()[model];
+  if (!modelPricing) {
+    return 0;
+  }
+
+  return (promptTokens * modelPricing.prompt + responseTokens * modelPricing.response) / 1_000_000;
+}
@@ -1,9 +1,10 @@
-import { Message } from '@prisma/client';
+import { Message, Prisma } from '@prisma/client';
 import { DatabaseConfig } from '../config/database.config';
 import { Logger } from '../utils/logger';
-import { NotFoundError, ValidationError } from '../middleware/error.middleware';
+import { NotFoundError, ValidationError, ConflictError } from '../middleware/error.middleware';
 import { CacheService } from './cache.service';
 import { SubscriptionService } from './subscription.service';
+import { EventService } from './event.service';
 
 interface CreateMessageData {
   content: string;
@@ -11,6 +12,18 @@ interface CreateMessageData {
   messageType?: string;
 }
 
+export interface RegeneratePlan {
+  prompt: Message;
+  replyGroupId: string | null;
+  hiddenMessageIds: string[];
+}
+
+export interface BranchResult {
+  message: Message;
+  hiddenMessageIds: string[];
+  restoredMessageIds: string[];
+}
+
 interface MessageWithChatroom extends Message {
   chatroom: {
     id: string;
@@ -59,11 +72,13 @@ export class MessageService {
       }
 
       // Check subscription limits for user messages only
+      let billAsOverage = false;
       if (data.sender === 'user') {
-        const { canSend, reason } = await SubscriptionService.getInstance().canSendMessage(userId);
+        const { canSend, reason, overage } = await SubscriptionService.getInstance().canSendMessage(userId);
         if (!canSend) {
           throw new ValidationError(`Cannot send message: ${reason}`);
         }
+        billAsOverage = overage === true;
       }
 
       // Create the message
@@ -84,12 +99,15 @@ export class MessageService {
 
       // Track usage for user messages only
       if (data.sender === 'user') {
-        await SubscriptionService.getInstance().trackMessageUsage(userId);
+        await SubscriptionService.getInstance().trackMessageUsage(userId, { overage: billAsOverage });
       }
 
       // Invalidate cache after message creation
       await CacheService.invalidateMessageCache(chatroomId, userId);
 
+      // Notify live subscribers
+      await EventService.publish('message.created', chatroomId, userId, { message });
+
       this.logger.info(`Message created: ${message.id} in chatroom: ${chatroomId}`);
       return message;
     } catch (error) {
@@ -131,15 +149,16 @@ export class MessageService {
 
       // Get total count
       const total = await db.message.count({
-        where: { chatroomId }
+        where: { chatroomId, isActive: true }
       });
 
       // Get messages
       const messages = await db.message.findMany({
-        where: { chatroomId },
+        where: { chatroomId, isActive: true },
         orderBy: { createdAt: 'asc' },
         skip,
-        take: limit
+        take: limit,
+        include: { metadata: true }
       });
 
       const totalPages = Math.ceil(total / limit);
@@ -182,7 +201,7 @@ export class MessageService {
       }
 
       // Build where condition
-      const whereCondition: any = { chatroomId };
+      const whereCondition: any = { chatroomId, isActive: true };
       if (since) {
         whereCondition.createdAt = { gt: since };
       }
@@ -228,7 +247,8 @@ export class MessageService {
               name: true,
               userId: true
             }
-          }
+          },
+          metadata: true
         }
       });
 
@@ -285,6 +305,9 @@ export class MessageService {
       // Invalidate cache after message deletion
       await CacheService.invalidateMessageCache(message.chatroomId, userId);
 
+      // Notify live subscribers
+      await EventService.publish('message.deleted', message.chatroomId, userId, { messageId });
+
       this.logger.info(`Message deleted: ${messageId}`);
     } catch (error) {
       this.logger.error('Delete message failed:', error);
@@ -325,20 +348,20 @@ export class MessageService {
 
       // Get message counts
       const totalMessages = await db.message.count({
-        where: { chatroomId }
+        where: { chatroomId, isActive: true }
       });
 
       const userMessages = await db.message.count({
-        where: { chatroomId, sender: 'user' }
+        where: { chatroomId, isActive: true, sender: 'user' }
       });
 
       const aiMessages = await db.message.count({
-        where: { chatroomId, sender: 'ai' }
+        where: { chatroomId, isActive: true, sender: 'ai' }
       });
 
       // Calculate average message length
       const messages = await db.message.findMany({
-        where: { chatroomId },
+        where: { chatroomId, isActive: true },
         select: { content: true }
       });
 
@@ -403,6 +426,7 @@ export class MessageService {
       const total = await db.message.count({
         where: {
           chatroomId,
+          isActive: true,
           content: { contains: searchQuery, mode: 'insensitive' }
         }
       });
@@ -411,6 +435,7 @@ export class MessageService {
       const messages = await db.message.findMany({
         where: {
           chatroomId,
+          isActive: true,
           content: { contains: searchQuery, mode: 'insensitive' }
         },
         orderBy: { createdAt: 'desc' },
@@ -462,7 +487,7 @@ export class MessageService {
 
       // Get recent messages for context
       const messages = await db.message.findMany({
-        where: { chatroomId },
+        where: { chatroomId, isActive: true },
         orderBy: { createdAt: 'desc' },
         take: limit
       });
@@ -502,6 +527,11 @@ export class MessageService {
         where: { chatroomId }
       });
 
+      // The rolling summary describes the deleted messages, so drop it too
+      await db.chatroomSummary.deleteMany({
+        where: { chatroomId }
+      });
+
       // Update chatroom's updated timestamp
       await db.chatroom.update({
         where: { id: chatroomId },
@@ -511,10 +541,303 @@ export class MessageService {
       // Invalidate cache after clearing messages
       await CacheService.invalidateMessageCache(chatroomId, userId);
 
+      // Notify live subscribers
+      await EventService.publish('message.deleted', chatroomId, userId, { cleared: true });
+
       this.logger.info(`Cleared all messages in chatroom: ${chatroomId}`);
     } catch (error) {
       this.logger.error('Clear chatroom messages failed:', error);
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Prepare a new AI reply for a prompt. Accepts the AI reply to replace, or the
+   * latest user message when its reply never arrived. The replaced reply and any
+   * later turns are kept as inactive alternates.
+   */
+  static async regenerateReply(messageId: string, userId: string): Promise<RegeneratePlan> {
+    try {
+      const db = DatabaseConfig.getClient();
+      const message = await this.getOwnedActiveMessage(messageId, userId);
+
+      let prompt: Message | null;
+      let reply: Message | null;
+
+      if (message.sender === 'ai') {
+        reply = message;
+        prompt = message.replyToId
+          ? await db.message.findFirst({ where: { id: message.replyToId, isActive: true } })
+          : await db.message.findFirst({
+              where: {
+                chatroomId: message.chatroomId,
+                isActive: true,
+                sender: 'user',
+                createdAt: { lt: message.createdAt }
+              },
+              orderBy: { createdAt: 'desc' }
+            });
+      } else {
+        prompt = message;
+        reply = await db.message.findFirst({
+          where: { chatroomId: message.chatroomId, isActive: true, replyToId: message.id }
+        });
+
+        const later = await db.message.count({
+          where: { chatroomId: message.chatroomId, isActive: true, createdAt: { gt: message.createdAt } }
+        });
+        if (!reply && later > 0) {
+          throw new ValidationError('Only the latest message can be regenerated without an AI reply');
+        }
+      }
+
+      if (!prompt) {
+        throw new ValidationError('No user message found to regenerate a reply for');
+      }
+
+      const { canSend, reason, overage } = await SubscriptionService.getInstance().canSendMessage(userId);
+      if (!canSend) {
+        throw new ValidationError(`Cannot regenerate message: ${reason}`);
+      }
+
+      const hiddenMessageIds = reply
+        ? await db.$transaction(tx => this.hideFrom(tx, reply as Message))
+        : [];
+
+      await SubscriptionService.getInstance().trackMessageUsage(userId, { overage: overage === true });
+      await this.afterBranch(prompt.chatroomId, userId, hiddenMessageIds, []);
+
+      this.logger.info(`Regenerating reply for message: ${prompt.id}`);
+      return {
+        prompt,
+        replyGroupId: reply ? reply.versionGroupId ?? reply.id : null,
+        hiddenMessageIds
+      };
+    } catch (error) {
+      this.logger.error('Regenerate reply failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a user message. The edit is saved as a new version; the original and
+   * every later turn are kept as inactive alternates.
+   */
+  static async editMessage(messageId: string, userId: string, content: string): Promise<BranchResult> {
+    try {
+      if (typeof content !== 'string' || content.trim().length === 0) {
+        throw new ValidationError('Message content is required');
+      }
+
+      if (content.length > 4000) {
+        throw new ValidationError('Message content cannot exceed 4000 characters');
+      }
+
+      const db = DatabaseConfig.getClient();
+      const original = await this.getOwnedActiveMessage(messageId, userId);
+
+      if (original.sender !== 'user') {
+        throw new ValidationError('Only user messages can be edited');
+      }
+
+      const { canSend, reason, overage } = await SubscriptionService.getInstance().canSendMessage(userId);
+      if (!canSend) {
+        throw new ValidationError(`Cannot edit message: ${reason}`);
+      }
+
+      const groupId = original.versionGroupId ?? original.id;
+
+      const { message, hiddenMessageIds } = await db.$transaction(async tx => {
+        const hidden = await this.hideFrom(tx, original);
+        const latest = await tx.message.aggregate({
+          where: { OR: [{ id: groupId }, { versionGroupId: groupId }] },
+          _max: { version: true }
+        });
+
+        const created = await tx.message.create({
+          data: {
+            chatroomId: original.chatroomId,
+            content: content.trim(),
+            sender: 'user',
+            messageType: original.messageType,
+            versionGroupId: groupId,
+            version: (latest._max.version ?? original.version) + 1
+          }
+        });
+
+        return { message: created, hiddenMessageIds: hidden };
+      });
+
+      await SubscriptionService.getInstance().trackMessageUsage(userId, { overage: overage === true });
+      await this.afterBranch(original.chatroomId, userId, hiddenMessageIds, []);
+      await EventService.publish('message.created', original.chatroomId, userId, { message });
+
+      this.logger.info(`Message edited: ${original.id} -> ${message.id}`);
+      return { message, hiddenMessageIds, restoredMessageIds: [] };
+    } catch (error) {
+      this.logger.error('Edit message failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List every version of a message, oldest first
+   */
+  static async getMessageVersions(messageId: string, userId: string): Promise<Message[]> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const message = await db.message.findFirst({
+        where: { id: messageId, chatroom: { userId } }
+      });
+
+      if (!message) {
+        throw new NotFoundError('Message not found');
+      }
+
+      const groupId = message.versionGroupId ?? message.id;
+      return db.message.findMany({
+        where: { OR: [{ id: groupId }, { versionGroupId: groupId }] },
+        orderBy: { version: 'asc' },
+        include: { metadata: true }
+      });
+    } catch (error) {
+      this.logger.error('Get message versions failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Switch the conversation to another version of a message, restoring the
+   * turns that followed it and hiding those of the version it replaces
+   */
+  static async activateVersion(messageId: string, userId: string): Promise<BranchResult> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const target = await db.message.findFirst({
+        where: { id: messageId, chatroom: { userId } }
+      });
+
+      if (!target) {
+        throw new NotFoundError('Message not found');
+      }
+
+      if (target.isActive) {
+        return { message: target, hiddenMessageIds: [], restoredMessageIds: [] };
+      }
+
+      const groupId = target.versionGroupId ?? target.id;
+      const current = await db.message.findFirst({
+        where: { OR: [{ id: groupId }, { versionGroupId: groupId }], isActive: true }
+      });
+
+      if (!current) {
+        throw new ConflictError('Message is not part of the current conversation');
+      }
+
+      const result = await db.$transaction(async tx => {
+        const hidden = await this.hideFrom(tx, current);
+
+        // Bring back the version and the turns that were hidden along with it
+        const restored = await tx.message.findMany({
+          where: { chatroomId: target.chatroomId, supersededById: target.id },
+          select: { id: true }
+        });
+        const restoredIds = Array.from(new Set([target.id, ...restored.map(m => m.id)]));
+
+        await tx.message.updateMany({
+          where: { id: { in: restoredIds } },
+          data: { isActive: true, supersededById: null }
+        });
+
+        return { hiddenMessageIds: hidden, restoredMessageIds: restoredIds };
+      });
+
+      await this.afterBranch(target.chatroomId, userId, result.hiddenMessageIds, result.restoredMessageIds);
+
+      this.logger.info(`Activated message version: ${target.id}`);
+      return { message: { ...target, isActive: true, supersededById: null }, ...result };
+    } catch (error) {
+      this.logger.error('Activate message version failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load an active message from one of the user's chatrooms
+   */
+  private static async getOwnedActiveMessage(messageId: string, userId: string): Promise<Message> {
+    const db = DatabaseConfig.getClient();
+
+    const message = await db.message.findFirst({
+      where: { id: messageId, chatroom: { userId } }
+    });
+
+    if (!message) {
+      throw new NotFoundError('Message not found');
+    }
+
+    if (!message.isActive) {
+      throw new ConflictError('Message is an inactive version; activate it first');
+    }
+
+    return message;
+  }
+
+  /**
+   * Hide a message and every later active turn, remembering which version hid them
+   */
+  private static async hideFrom(tx: Prisma.TransactionClient, message: Message): Promise<string[]> {
+    const hidden = await tx.message.findMany({
+      where: {
+        chatroomId: message.chatroomId,
+        isActive: true,
+        createdAt: { gte: message.createdAt }
+      },
+      select: { id: true }
+    });
+    const hiddenIds = hidden.map(m => m.id);
+
+    await tx.message.updateMany({
+      where: { id: { in: hiddenIds } },
+      data: { isActive: false, supersededById: message.id }
+    });
+
+    // A summary covering hidden turns no longer describes the conversation
+    await tx.chatroomSummary.deleteMany({
+      where: {
+        chatroomId: message.chatroomId,
+        summarizedThrough: { gte: message.createdAt }
+      }
+    });
+
+    return hiddenIds;
+  }
+
+  /**
+   * Refresh caches and notify live subscribers after the active branch changed
+   */
+  private static async afterBranch(
+    chatroomId: string,
+    userId: string,
+    hiddenMessageIds: string[],
+    restoredMessageIds: string[]
+  ): Promise<void> {
+    const db = DatabaseConfig.getClient();
+
+    await db.chatroom.update({
+      where: { id: chatroomId },
+      data: { updatedAt: new Date() }
+    });
+
+    await CacheService.invalidateMessageCache(chatroomId, userId);
+
+    if (hiddenMessageIds.length > 0 || restoredMessageIds.length > 0) {
+      await EventService.publish('conversation.branched', chatroomId, userId, {
+        hiddenMessageIds,
+        restoredMessageIds
+      });
+    }
+  }
+}
@@ -1,8 +1,11 @@
+import crypto from 'crypto';
 import { DatabaseConfig } from '../config/database.config';
-import { ValidationError, NotFoundError } from '../middleware/error.middleware';
+import { ValidationError, NotFoundError, RateLimitError } from '../middleware/error.middleware';
 import { Logger } from '../utils/logger';
 import { RedisConfig } from '../config/redis.config';
 import { CacheService } from '../services/cache.service';
+import { QueueService } from './queue.service';
+import { AppConfig } from '../config/app.config';
 
 interface OTPData {
   id: string;
@@ -13,18 +16,29 @@ interface OTPData {
   isVerified: boolean;
 }
 
+export interface OTPLockoutStatus {
+  locked: boolean;
+  lockedUntil: Date | null;
+  retryAfterSeconds: number;
+  failedAttempts: number;
+  remainingAttempts: number;
+}
+
 export class OTPService {
   private static logger = Logger.getInstance();
+  private static redisClient = RedisConfig.getCacheRedisClient();
   private static readonly OTP_EXPIRY_MINUTES = 5;
   private static readonly OTP_LENGTH = 6;
+  private static readonly ATTEMPT_WINDOW_SECONDS = 60 * 60;
+  private static readonly LOCKOUT_HISTORY_SECONDS = 24 * 60 * 60;
 
   /**
-   * Generate a random OTP code
+   * Generate a random OTP code from a cryptographically secure source
    */
   private static generateOTPCode(): string {
     const min = Math.pow(10, this.OTP_LENGTH - 1);
-    const max = Math.pow(10, this.OTP_LENGTH) - 1;
-    return Math.floor(Math.random() * (max - min + 1) + min).toString();
+    const max = Math.pow(10, this.OTP_LENGTH);
+    return crypto.randomInt(min, max).toString();
   }
 
   /**
@@ -74,6 +88,8 @@ export class OTPService {
         purpose
       }, this.OTP_EXPIRY_MINUTES * 60);
 
+      await this.deliverOTP(mobileNumber, otpCode, purpose);
+
       this.logger.info(`OTP generated for ${mobileNumber} (${purpose})`);
       
       return {
@@ -97,6 +113,18 @@ export class OTPService {
     try {
       const db = DatabaseConfig.getClient();
 
+      await this.assertNotLockedOut(mobileNumber, purpose);
+
+      // Count the guess before comparing so concurrent guesses cannot all pass the limit.
+      // A Redis error propagates here, refusing the check rather than allowing unlimited guesses.
+      const attempts = await CacheService.increment(
+        this.attemptsKey(mobileNumber, purpose),
+        this.ATTEMPT_WINDOW_SECONDS
+      );
+      if (attempts > AppConfig.otpMaxVerifyAttempts) {
+        throw new RateLimitError('Too many failed OTP attempts. Request a new code later.');
+      }
+
       // First check Redis cache
       const cacheKey = `otp:${mobileNumber}:${purpose}`;
       const cachedOTP = await CacheService.getJson<{
@@ -109,10 +137,12 @@ export class OTPService {
         const isExpired = new Date(cachedOTP.expiresAt) < new Date();
         if (isExpired) {
           await CacheService.del(cacheKey);
+          await this.recordFailedAttempt(mobileNumber, purpose, attempts);
           return { isValid: false };
         }
 
         if (cachedOTP.otpCode !== otpCode) {
+          await this.recordFailedAttempt(mobileNumber, purpose, attempts);
           return { isValid: false };
         }
       }
@@ -132,17 +162,25 @@ export class OTPService {
 
       if (!otpRecord) {
         this.logger.warn(`OTP verification failed for ${mobileNumber}`);
+        await this.recordFailedAttempt(mobileNumber, purpose, attempts);
         return { isValid: false };
       }
 
-      // Mark OTP as verified
-      await db.otp.update({
-        where: { id: otpRecord.id },
+      // Mark OTP as verified; only one request may spend it
+      const { count } = await db.otp.updateMany({
+        where: { id: otpRecord.id, isVerified: false },
         data: { isVerified: true }
       });
 
-      // Remove from cache
+      if (count !== 1) {
+        this.logger.warn(`OTP for ${mobileNumber} was already used by a concurrent request`);
+        return { isValid: false };
+      }
+
+      // Remove from cache and forget earlier failures
       await CacheService.del(cacheKey);
+      await CacheService.del(this.attemptsKey(mobileNumber, purpose));
+      await CacheService.del(this.lockoutCountKey(mobileNumber, purpose));
 
       this.logger.info(`OTP verified successfully for ${mobileNumber} (${purpose})`);
       
@@ -236,6 +274,122 @@ export class OTPService {
     }
   }
 
+  /**
+   * Current failed-attempt count and lockout for a number and purpose
+   */
+  static async getLockoutStatus(
+    mobileNumber: string,
+    purpose: 'login' | 'password_reset'
+  ): Promise<OTPLockoutStatus> {
+    const [lockedUntilValue, attemptsValue] = await Promise.all([
+      CacheService.get(this.lockoutKey(mobileNumber, purpose)),
+      CacheService.get(this.attemptsKey(mobileNumber, purpose))
+    ]);
+
+    const lockedUntil = lockedUntilValue ? new Date(lockedUntilValue) : null;
+    const retryAfterSeconds = lockedUntil
+      ? Math.max(0, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+      : 0;
+    const failedAttempts = parseInt(attemptsValue || '0', 10);
+
+    return {
+      locked: retryAfterSeconds > 0,
+      lockedUntil: retryAfterSeconds > 0 ? lockedUntil : null,
+      retryAfterSeconds,
+      failedAttempts,
+      remainingAttempts: Math.max(0, AppConfig.otpMaxVerifyAttempts - failedAttempts)
+    };
+  }
+
+  /**
+   * Reject requests for a number that is locked out
+   */
+  static async assertNotLockedOut(mobileNumber: string, purpose: 'login' | 'password_reset'): Promise<void> {
+    // Read Redis directly so an outage fails closed instead of reporting no lockout
+    const lockedUntilValue = await this.redisClient.get(this.lockoutKey(mobileNumber, purpose));
+    const retryAfterSeconds = lockedUntilValue
+      ? Math.ceil((new Date(lockedUntilValue).getTime() - Date.now()) / 1000)
+      : 0;
+
+    if (retryAfterSeconds > 0) {
+      throw new RateLimitError(
+        `Too many failed OTP attempts. Try again in ${retryAfterSeconds} seconds.`
+      );
+    }
+  }
+
+  /**
+   * Handle a wrong guess that verifyOTP has already counted. Reaching the limit
+   * invalidates the code and locks the number out, doubling the lockout each
+   * time it happens within a day.
+   */
+  private static async recordFailedAttempt(
+    mobileNumber: string,
+    purpose: 'login' | 'password_reset',
+    attempts: number
+  ): Promise<void> {
+    if (attempts < AppConfig.otpMaxVerifyAttempts) {
+      return;
+    }
+
+    const db = DatabaseConfig.getClient();
+    await db.otp.deleteMany({
+      where: { mobileNumber, purpose, isVerified: false }
+    });
+    await CacheService.del(`otp:${mobileNumber}:${purpose}`);
+    await CacheService.del(this.attemptsKey(mobileNumber, purpose));
+
+    const lockouts = await CacheService.increment(
+      this.lockoutCountKey(mobileNumber, purpose),
+      this.LOCKOUT_HISTORY_SECONDS
+    );
+    const duration = Math.min(
+      AppConfig.otpLockoutBaseSeconds * Math.pow(2, lockouts - 1),
+      AppConfig.otpLockoutMaxSeconds
+    );
+    const lockedUntil = new Date(Date.now() + duration * 1000);
+
+    await CacheService.set(this.lockoutKey(mobileNumber, purpose), lockedUntil.toISOString(), duration);
+
+    this.logger.warn(`OTP locked for ${mobileNumber} (${purpose}) for ${duration}s after ${attempts} failed attempts`);
+  }
+
+  private static attemptsKey(mobileNumber: string, purpose: string): string {
+    return `otp:attempts:${mobileNumber}:${purpose}`;
+  }
+
+  private static lockoutKey(mobileNumber: string, purpose: string): string {
+    return `otp:lockout:${mobileNumber}:${purpose}`;
+  }
+
+  private static lockoutCountKey(mobileNumber: string, purpose: string): string {
+    return `otp:lockouts:${mobileNumber}:${purpose}`;
+  }
+
+  /**
+   * Queue the text message carrying an OTP code
+   */
+  private static async deliverOTP(
+    mobileNumber: string,
+    otpCode: string,
+    purpose: 'login' | 'password_reset'
+  ): Promise<void> {
+    const action = purpose === 'password_reset' ? 'password reset' : 'login';
+
+    await QueueService.getInstance().enqueueSms({
+      to: this.toE164(mobileNumber),
+      body: `Your ${action} code is ${otpCode}. It expires in ${this.OTP_EXPIRY_MINUTES} minutes. Do not share it with anyone.`,
+      purpose: `otp_${purpose}`
+    });
+  }
+
+  /**
+   * Convert a stored 10-digit number to E.164 using the default country code
+   */
+  static toE164(mobileNumber: string): string {
+    return `+${AppConfig.smsDefaultCountryCode}${mobileNumber}`;
+  }
+
   /**
    * Validate mobile number format
    */
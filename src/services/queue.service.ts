@@ -1,6 +1,7 @@
 import { Queue, Job, JobsOptions } from 'bullmq';
 import { QueueConfig } from '../config/queue.config';
 import { Logger } from '../utils/logger';
+import { ConflictError } from '../middleware/error.middleware';
 
 export interface GeminiMessageJob {
   messageId: string;
@@ -15,14 +16,37 @@ export interface GeminiMessageJob {
   };
 }
 
+export interface GeminiJobStatus {
+  id: string;
+  messageId: string;
+  chatRoomId: string;
+  state: string;
+  progress: number | object;
+  failedReason: string | null;
+  attemptsMade: number;
+  maxAttempts: number;
+  savedMessageId: string | null;
+  createdAt: Date;
+  processedAt: Date | null;
+  finishedAt: Date | null;
+}
+
 export interface EmailJob {
   to: string;
   subject: string;
   template: string;
   data: any;
+  // Cache key holding template data too sensitive for the job (codes, sign-in links); it expires with them
+  secretDataKey?: string;
   priority?: number;
 }
 
+export interface SmsJob {
+  to: string;
+  body: string;
+  purpose: string;
+}
+
 export interface WebhookJob {
   url: string;
   method: string;
@@ -31,6 +55,11 @@ export interface WebhookJob {
   retryCount?: number;
 }
 
+export interface StripeEventJob {
+  webhookEventId: string;
+  type: string;
+}
+
 export interface AnalyticsJob {
   eventType: string;
   userId: string;
@@ -38,6 +67,47 @@ export interface AnalyticsJob {
   timestamp: Date;
 }
 
+export interface ChatroomSummaryJob {
+  chatRoomId: string;
+  requestedAt: Date;
+}
+
+export interface AccountExportJob {
+  userId: string;
+  requestedAt: Date;
+}
+
+export interface AccountExportStatus {
+  id: string;
+  state: string;
+  progress: number | object;
+  failedReason: string | null;
+  fileName: string | null;
+  sizeBytes: number | null;
+  chatroomCount: number | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface ConversationImportJob {
+  userId: string;
+  filePath: string;
+  originalName: string;
+  source: 'auto' | 'chatgpt' | 'gemini';
+  requestedAt: Date;
+}
+
+export interface ConversationImportStatus {
+  id: string;
+  state: string;
+  progress: number | object;
+  failedReason: string | null;
+  result: any;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
+
 export class QueueService {
   private static instance: QueueService;
   private queues: Map<string, Queue> = new Map();
@@ -119,6 +189,59 @@ export class QueueService {
     return job;
   }
 
+  // Get a Gemini message processing job by ID
+  async getGeminiJob(jobId: string): Promise<Job<GeminiMessageJob> | undefined> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.GEMINI_PROCESSING);
+    if (!queue) {
+      throw new Error('Gemini processing queue not found');
+    }
+
+    return queue.getJob(jobId);
+  }
+
+  // Describe the current state of a Gemini message processing job
+  async getGeminiJobStatus(job: Job<GeminiMessageJob>): Promise<GeminiJobStatus> {
+    const state = await job.getState();
+
+    return {
+      id: String(job.id),
+      messageId: job.data.messageId,
+      chatRoomId: job.data.chatRoomId,
+      state,
+      progress: job.progress,
+      failedReason: job.failedReason || null,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts || 1,
+      savedMessageId: job.returnvalue?.savedMessageId || null,
+      createdAt: new Date(job.timestamp),
+      processedAt: job.processedOn ? new Date(job.processedOn) : null,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+
+  // Cancel a Gemini message processing job that has not started yet.
+  // Only the AI reply is cancelled: the user's message stays and still counts towards daily usage.
+  async cancelGeminiJob(job: Job<GeminiMessageJob>): Promise<void> {
+    const state = await job.getState();
+    const cancellableStates = ['waiting', 'delayed', 'prioritized'];
+
+    if (!cancellableStates.includes(state)) {
+      throw new ConflictError(`Job cannot be cancelled while ${state}`);
+    }
+
+    try {
+      await job.remove();
+    } catch (error) {
+      // A worker locked the job after the state check
+      this.logger.warn(`Could not remove Gemini message job ${job.id}:`, error);
+      throw new ConflictError('Job cannot be cancelled after processing has started');
+    }
+    this.logger.info(`Cancelled Gemini message job ${job.id}`, {
+      messageId: job.data.messageId,
+      chatRoomId: job.data.chatRoomId,
+    });
+  }
+
   // Enqueue email notification job
   async enqueueEmail(
     data: EmailJob,
@@ -129,9 +252,17 @@ export class QueueService {
       throw new Error('Email notifications queue not found');
     }
 
+    // Emails may carry sign-in codes and links, so do not keep completed jobs around
     const jobOptions: JobsOptions = {
       priority: data.priority || QueueConfig.JOB_PRIORITIES.MEDIUM,
       delay: 0,
+      attempts: 5,
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      },
+      removeOnComplete: true,
+      removeOnFail: 50,
       ...options,
     };
 
@@ -141,7 +272,41 @@ export class QueueService {
       jobOptions
     );
 
-    this.logger.info(`Enqueued email job ${job.id}`, { to: data.to });
+    this.logger.info(`Enqueued email job ${job.id}`, { template: data.template });
+    return job;
+  }
+
+  // Enqueue SMS delivery job
+  async enqueueSms(
+    data: SmsJob,
+    options?: JobsOptions
+  ): Promise<Job<SmsJob>> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.SMS_NOTIFICATIONS);
+    if (!queue) {
+      throw new Error('SMS notifications queue not found');
+    }
+
+    // Codes expire within minutes, so retry quickly and do not keep message bodies around
+    const jobOptions: JobsOptions = {
+      priority: QueueConfig.JOB_PRIORITIES.HIGH,
+      delay: 0,
+      attempts: 5,
+      backoff: {
+        type: 'exponential',
+        delay: 1000,
+      },
+      removeOnComplete: true,
+      removeOnFail: true,
+      ...options,
+    };
+
+    const job = await queue.add(
+      QueueConfig.JOB_TYPES.SEND_SMS,
+      data,
+      jobOptions
+    );
+
+    this.logger.info(`Enqueued SMS job ${job.id}`, { purpose: data.purpose });
     return job;
   }
 
@@ -171,6 +336,64 @@ export class QueueService {
     return job;
   }
 
+  // Enqueue processing of a stored Stripe webhook event
+  async enqueueStripeEvent(
+    data: StripeEventJob,
+    options?: JobsOptions
+  ): Promise<Job<StripeEventJob>> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.WEBHOOK_PROCESSING);
+    if (!queue) {
+      throw new Error('Webhook processing queue not found');
+    }
+
+    const jobOptions: JobsOptions = {
+      priority: QueueConfig.JOB_PRIORITIES.HIGH,
+      attempts: 5,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+      removeOnComplete: true,
+      removeOnFail: 100,
+      ...options,
+    };
+
+    const job = await queue.add(
+      QueueConfig.JOB_TYPES.PROCESS_STRIPE_EVENT,
+      data,
+      jobOptions
+    );
+
+    this.logger.info(`Enqueued Stripe event job ${job.id}`, { type: data.type });
+    return job;
+  }
+
+  // Schedule recurring subscription upkeep: downgrading subscribers whose grace period has
+  // ended, and reporting metered overage to Stripe in batches
+  async scheduleSubscriptionMaintenance(): Promise<void> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.SUBSCRIPTION_MAINTENANCE);
+    if (!queue) {
+      throw new Error('Subscription maintenance queue not found');
+    }
+
+    const schedules = [
+      { name: QueueConfig.JOB_TYPES.EXPIRE_GRACE_PERIODS, every: 60 * 60 * 1000 },
+      { name: QueueConfig.JOB_TYPES.REPORT_OVERAGE_USAGE, every: 15 * 60 * 1000 },
+    ];
+
+    for (const { name, every } of schedules) {
+      // A fixed job ID keeps a single schedule across restarts and instances
+      await queue.add(name, {}, {
+        repeat: { every },
+        jobId: name,
+        removeOnComplete: true,
+        removeOnFail: 20,
+      });
+
+      this.logger.info(`Scheduled ${name} every ${Math.round(every / 60000)} minutes`);
+    }
+  }
+
   // Enqueue analytics tracking job
   async enqueueAnalytics(
     data: AnalyticsJob,
@@ -197,6 +420,146 @@ export class QueueService {
     return job;
   }
 
+  // Enqueue a rolling summary refresh for a chatroom
+  async enqueueChatroomSummary(
+    data: ChatroomSummaryJob,
+    options?: JobsOptions
+  ): Promise<Job<ChatroomSummaryJob>> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.CHATROOM_SUMMARIES);
+    if (!queue) {
+      throw new Error('Chatroom summaries queue not found');
+    }
+
+    // One pending refresh per chatroom: BullMQ ignores adds with an existing job ID,
+    // so finished jobs are removed straight away to allow the next refresh
+    const jobOptions: JobsOptions = {
+      jobId: `summary-${data.chatRoomId}`,
+      priority: QueueConfig.JOB_PRIORITIES.LOW,
+      delay: 0,
+      removeOnComplete: true,
+      removeOnFail: true,
+      ...options,
+    };
+
+    const job = await queue.add(
+      QueueConfig.JOB_TYPES.SUMMARIZE_CHATROOM,
+      data,
+      jobOptions
+    );
+
+    this.logger.debug(`Enqueued chatroom summary job ${job.id}`, { chatRoomId: data.chatRoomId });
+    return job;
+  }
+
+  // Enqueue an account-wide data export
+  async enqueueAccountExport(
+    data: AccountExportJob,
+    options?: JobsOptions
+  ): Promise<Job<AccountExportJob>> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.DATA_EXPORTS);
+    if (!queue) {
+      throw new Error('Data exports queue not found');
+    }
+
+    const jobOptions: JobsOptions = {
+      priority: QueueConfig.JOB_PRIORITIES.LOW,
+      delay: 0,
+      attempts: 2,
+      ...options,
+    };
+
+    const job = await queue.add(
+      QueueConfig.JOB_TYPES.EXPORT_ACCOUNT,
+      data,
+      jobOptions
+    );
+
+    this.logger.info(`Enqueued account export job ${job.id}`, { userId: data.userId });
+    return job;
+  }
+
+  // Get an account export job by ID
+  async getAccountExportJob(jobId: string): Promise<Job<AccountExportJob> | undefined> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.DATA_EXPORTS);
+    if (!queue) {
+      throw new Error('Data exports queue not found');
+    }
+
+    return queue.getJob(jobId);
+  }
+
+  // Describe the current state of an account export job
+  async getAccountExportStatus(job: Job<AccountExportJob>): Promise<AccountExportStatus> {
+    const state = await job.getState();
+    const result = job.returnvalue;
+
+    return {
+      id: String(job.id),
+      state,
+      progress: job.progress,
+      failedReason: job.failedReason || null,
+      fileName: result?.fileName || null,
+      sizeBytes: result?.sizeBytes ?? null,
+      chatroomCount: result?.chatroomCount ?? null,
+      expiresAt: result?.expiresAt ? new Date(result.expiresAt) : null,
+      createdAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+
+  // Enqueue an import of conversations from an uploaded export file
+  async enqueueConversationImport(
+    data: ConversationImportJob,
+    options?: JobsOptions
+  ): Promise<Job<ConversationImportJob>> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.DATA_IMPORTS);
+    if (!queue) {
+      throw new Error('Data imports queue not found');
+    }
+
+    // Imports are not idempotent, so a failed job is not retried automatically
+    const jobOptions: JobsOptions = {
+      priority: QueueConfig.JOB_PRIORITIES.LOW,
+      delay: 0,
+      attempts: 1,
+      ...options,
+    };
+
+    const job = await queue.add(
+      QueueConfig.JOB_TYPES.IMPORT_CONVERSATIONS,
+      data,
+      jobOptions
+    );
+
+    this.logger.info(`Enqueued conversation import job ${job.id}`, { userId: data.userId, source: data.source });
+    return job;
+  }
+
+  // Get a conversation import job by ID
+  async getConversationImportJob(jobId: string): Promise<Job<ConversationImportJob> | undefined> {
+    const queue = this.getQueue(QueueConfig.QUEUE_NAMES.DATA_IMPORTS);
+    if (!queue) {
+      throw new Error('Data imports queue not found');
+    }
+
+    return queue.getJob(jobId);
+  }
+
+  // Describe the current state of a conversation import job
+  async getConversationImportStatus(job: Job<ConversationImportJob>): Promise<ConversationImportStatus> {
+    const state = await job.getState();
+
+    return {
+      id: String(job.id),
+      state,
+      progress: job.progress,
+      failedReason: job.failedReason || null,
+      result: job.returnvalue || null,
+      createdAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+
   // Get queue statistics
   async getQueueStats(queueName: string): Promise<any> {
     const queue = this.getQueue(queueName);
@@ -0,0 +1,98 @@
+import { DatabaseConfig } from '../config/database.config';
+import { AuditService } from './audit.service';
+import { NotFoundError, ValidationError } from '../middleware/error.middleware';
+import { Logger } from '../utils/logger';
+
+// Ordered from least to most privileged; each role includes the ones before it
+export const USER_ROLES = ['user', 'support', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export interface RoleChangeContext {
+  actorId?: string | undefined; // unset for changes made from the command line
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export class RoleService {
+  private static logger = Logger.getInstance();
+
+  static isRole(value: unknown): value is UserRole {
+    return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+  }
+
+  /**
+   * Whether a role carries at least the privileges of another
+   */
+  static hasRole(role: string, required: UserRole): boolean {
+    return this.isRole(role) && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+  }
+
+  /**
+   * Current role of a user, or null if the user does not exist
+   */
+  static async getUserRole(userId: string): Promise<UserRole | null> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { role: true }
+    });
+
+    if (!user) {
+      return null;
+    }
+    // Unknown values in the column grant nothing beyond a regular user
+    return this.isRole(user.role) ? user.role : 'user';
+  }
+
+  /**
+   * Change a user's role and record the grant or revocation in the audit log
+   */
+  static async setUserRole(userId: string, role: UserRole, context: RoleChangeContext = {}): Promise<{
+    role: UserRole;
+    previousRole: string;
+    changed: boolean;
+  }> {
+    if (!this.isRole(role)) {
+      throw new ValidationError(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    if (context.actorId === userId) {
+      throw new ValidationError('You cannot change your own role');
+    }
+
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true }
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.role === role) {
+      return { role, previousRole: user.role, changed: false };
+    }
+
+    await db.user.update({
+      where: { id: userId },
+      data: { role }
+    });
+
+    // Moving down the ladder takes privileges away; anything else hands them out
+    const isRevocation = this.hasRole(user.role, role);
+    await AuditService.recordAuthEvent({
+      type: isRevocation ? 'role_revoked' : 'role_granted',
+      outcome: 'success',
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: {
+        role,
+        previousRole: user.role,
+        changedBy: context.actorId ?? 'cli'
+      }
+    });
+
+    this.logger.info(`Role of user ${userId} changed from ${user.role} to ${role} by ${context.actorId ?? 'cli'}`);
+    return { role, previousRole: user.role, changed: true };
+  }
+}
@@ -0,0 +1,368 @@
+import crypto from 'crypto';
+import { Session } from '@prisma/client';
+import { AppConfig } from '../config/app.config';
+import { DatabaseConfig } from '../config/database.config';
+import { RedisConfig } from '../config/redis.config';
+import { JWTService } from './jwt.service';
+import { AuthenticationError, NotFoundError } from '../middleware/error.middleware';
+import { Logger } from '../utils/logger';
+
+export interface ClientInfo {
+  deviceName?: string | undefined;
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+}
+
+export interface SessionSummary {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export interface TokenPair {
+  sessionId: string;
+  token: string;
+  expiresAt: Date;
+  refreshToken: string;
+  refreshExpiresAt: Date;
+}
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'user_revoked'
+  | 'token_reuse'
+  | 'password_change'
+  | 'password_reset'
+  | 'admin_revoked'
+  | 'account_suspended';
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Human-readable label such as "Chrome on macOS" for a user agent
+ */
+const describeUserAgent = (userAgent: string | undefined): string | null => {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  // API clients, e.g. "okhttp/4.12.0" or "curl/8.4.0", are named by their product token
+  return browser ?? platform ?? (userAgent.split(/[\s/]/)[0]?.slice(0, 100) || null);
+};
+
+export class SessionService {
+  private static logger = Logger.getInstance();
+  private static redisClient = RedisConfig.getCacheRedisClient();
+  private static readonly DENYLIST_PREFIX = 'session:revoked:';
+
+  /**
+   * Start a login session and issue its first token pair
+   */
+  static async createSession(
+    user: { id: string; mobileNumber: string },
+    client: ClientInfo = {}
+  ): Promise<TokenPair> {
+    const db = DatabaseConfig.getClient();
+    const refreshToken = this.generateRefreshToken();
+    const refreshExpiresAt = this.getRefreshExpiry();
+
+    const session = await db.session.create({
+      data: {
+        userId: user.id,
+        deviceName: client.deviceName?.slice(0, 100) || describeUserAgent(client.userAgent),
+        userAgent: client.userAgent?.slice(0, 512) ?? null,
+        ipAddress: client.ipAddress ?? null,
+        expiresAt: refreshExpiresAt,
+        refreshTokens: {
+          create: {
+            tokenHash: this.hashToken(refreshToken),
+            expiresAt: refreshExpiresAt
+          }
+        }
+      }
+    });
+
+    this.logger.info(`Session ${session.id} created for user: ${user.id}`);
+    return this.buildTokenPair(user, session, refreshToken, refreshExpiresAt);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Each refresh token works once;
+   * presenting a spent one revokes the whole session, since it may have been stolen.
+   */
+  static async rotateRefreshToken(refreshToken: string, client: ClientInfo = {}): Promise<TokenPair> {
+    const db = DatabaseConfig.getClient();
+    const now = new Date();
+
+    const stored = await db.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: {
+        session: {
+          include: {
+            user: { select: { id: true, mobileNumber: true } }
+          }
+        }
+      }
+    });
+
+    if (!stored) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const { session } = stored;
+
+    if (session.revokedAt) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
+    if (stored.rotatedAt) {
+      await this.revokeSession(session.id, 'token_reuse');
+      this.logger.warn(`Refresh token reuse detected; revoked session ${session.id} for user: ${session.userId}`);
+      throw new AuthenticationError('Refresh token has already been used');
+    }
+
+    if (stored.expiresAt < now) {
+      throw new AuthenticationError('Refresh token has expired');
+    }
+
+    const nextToken = this.generateRefreshToken();
+    const refreshExpiresAt = this.getRefreshExpiry();
+
+    // Only one request may spend the token: the conditional update loses the race otherwise
+    const updated = await db.$transaction(async tx => {
+      const spent = await tx.refreshToken.updateMany({
+        where: { id: stored.id, rotatedAt: null },
+        data: { rotatedAt: now }
+      });
+
+      if (spent.count === 0) {
+        return null;
+      }
+
+      await tx.refreshToken.create({
+        data: {
+          sessionId: session.id,
+          tokenHash: this.hashToken(nextToken),
+          expiresAt: refreshExpiresAt
+        }
+      });
+
+      return tx.session.update({
+        where: { id: session.id },
+        data: {
+          expiresAt: refreshExpiresAt,
+          lastUsedAt: now,
+          ...(client.userAgent && { userAgent: client.userAgent.slice(0, 512) }),
+          ...(client.ipAddress && { ipAddress: client.ipAddress })
+        }
+      });
+    });
+
+    if (!updated) {
+      await this.revokeSession(session.id, 'token_reuse');
+      throw new AuthenticationError('Refresh token has already been used');
+    }
+
+    return this.buildTokenPair(session.user, updated, nextToken, refreshExpiresAt);
+  }
+
+  /**
+   * Find the session a refresh token belongs to, if it belongs to the user
+   */
+  static async findSessionByRefreshToken(refreshToken: string, userId: string): Promise<Session | null> {
+    const db = DatabaseConfig.getClient();
+    const stored = await db.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { session: true }
+    });
+
+    return stored && stored.session.userId === userId ? stored.session : null;
+  }
+
+  /**
+   * List a user's active sessions, newest activity first
+   */
+  static async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const db = DatabaseConfig.getClient();
+    const sessions = await db.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    return sessions.map(session => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  static async revokeUserSession(userId: string, sessionId: string): Promise<void> {
+    const db = DatabaseConfig.getClient();
+    const session = await db.session.findFirst({
+      where: { id: sessionId, userId, revokedAt: null }
+    });
+
+    if (!session) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await this.revokeSession(session.id, 'user_revoked');
+  }
+
+  /**
+   * Revoke a session so none of its refresh tokens can be used again
+   */
+  static async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<boolean> {
+    const db = DatabaseConfig.getClient();
+    const result = await db.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    if (result.count > 0) {
+      const session = await db.session.findUnique({ where: { id: sessionId } });
+      if (session) {
+        await this.denySessions([session]);
+      }
+      this.logger.info(`Session ${sessionId} revoked (${reason})`);
+    }
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping the current one
+   */
+  static async revokeAllSessions(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const db = DatabaseConfig.getClient();
+    const where = {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    };
+
+    const sessions = await db.session.findMany({ where });
+    const result = await db.session.updateMany({
+      where: { ...where, id: { in: sessions.map(session => session.id) } },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+    await this.denySessions(sessions);
+
+    this.logger.info(`Revoked ${result.count} sessions for user ${userId} (${reason})`);
+    return result.count;
+  }
+
+  /**
+   * Whether access tokens of a session must be rejected. Checked on every
+   * request, so it reads the Redis denylist and only falls back to Postgres
+   * when Redis is unavailable.
+   */
+  static async isSessionRevoked(sessionId: string): Promise<boolean> {
+    try {
+      return (await this.redisClient.exists(`${this.DENYLIST_PREFIX}${sessionId}`)) === 1;
+    } catch (error) {
+      this.logger.error('Session denylist lookup failed, checking the database:', error);
+
+      const db = DatabaseConfig.getClient();
+      const session = await db.session.findUnique({
+        where: { id: sessionId },
+        select: { revokedAt: true }
+      });
+      return !session || session.revokedAt !== null;
+    }
+  }
+
+  /**
+   * Add revoked sessions to the denylist until their tokens could no longer be valid
+   */
+  private static async denySessions(sessions: Session[]): Promise<void> {
+    if (sessions.length === 0) {
+      return;
+    }
+
+    const pipeline = this.redisClient.pipeline();
+    for (const session of sessions) {
+      const ttl = Math.max(Math.ceil((session.expiresAt.getTime() - Date.now()) / 1000), 1);
+      pipeline.setex(`${this.DENYLIST_PREFIX}${session.id}`, ttl, '1');
+    }
+
+    try {
+      await pipeline.exec();
+    } catch (error) {
+      // Revocation is already stored in Postgres; access tokens stay short-lived
+      this.logger.error('Failed to add revoked sessions to the denylist:', error);
+    }
+  }
+
+  private static buildTokenPair(
+    user: { id: string; mobileNumber: string },
+    session: Session,
+    refreshToken: string,
+    refreshExpiresAt: Date
+  ): TokenPair {
+    const token = JWTService.generateToken(user.id, user.mobileNumber, session.id);
+    const expiresAt = JWTService.getTokenExpiration(token) || new Date(Date.now() + 15 * 60 * 1000);
+
+    return {
+      sessionId: session.id,
+      token,
+      expiresAt,
+      refreshToken,
+      refreshExpiresAt
+    };
+  }
+
+  private static generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static getRefreshExpiry(): Date {
+    return new Date(Date.now() + AppConfig.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,25 @@
+import { AppConfig } from '../../config/app.config';
+import { SmsProvider } from './sms.provider';
+import { TwilioSmsProvider } from './twilio.provider';
+import { SinkSmsProvider } from './sink.provider';
+
+export * from './sms.provider';
+export { TwilioSmsProvider } from './twilio.provider';
+export { SinkSmsProvider } from './sink.provider';
+
+export const SMS_PROVIDERS = ['twilio', 'sink'] as const;
+export type SmsProviderName = typeof SMS_PROVIDERS[number];
+
+/**
+ * Create the SMS provider selected by the SMS_PROVIDER setting
+ */
+export function createSmsProvider(name: string = AppConfig.smsProvider): SmsProvider {
+  switch (name) {
+    case 'twilio':
+      return new TwilioSmsProvider();
+    case 'sink':
+      return new SinkSmsProvider();
+    default:
+      throw new Error(`Unknown SMS provider "${name}". Expected one of: ${SMS_PROVIDERS.join(', ')}`);
+  }
+}
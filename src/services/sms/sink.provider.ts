@@ -0,0 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { AppConfig } from '../../config/app.config';
+import { Logger } from '../../utils/logger';
+import { SmsProvider, SmsMessage, SmsResult } from './sms.provider';
+
+function maskNumber(to: string): string {
+  return to.length > 4 ? `${'*'.repeat(to.length - 4)}${to.slice(-4)}` : '****';
+}
+
+function maskCodes(body: string): string {
+  return body.replace(/\d{4,}/g, digits => '*'.repeat(digits.length));
+}
+
+/**
+ * Development sink: prints messages to the log and, when SMS_SINK_PATH is set,
+ * appends them to that file as JSON lines so tests and scripts can read codes back
+ */
+export class SinkSmsProvider implements SmsProvider {
+  readonly name = 'sink';
+  private logger = Logger.getInstance();
+  private filePath: string;
+
+  constructor() {
+    this.filePath = AppConfig.smsSinkPath;
+  }
+
+  async send(message: SmsMessage): Promise<SmsResult> {
+    const messageId = randomUUID();
+
+    // Logs are shipped and kept; only the sink file carries the full message
+    this.logger.info(`[sms sink] to ${maskNumber(message.to)}: ${maskCodes(message.body)}`);
+
+    if (this.filePath) {
+      const filePath = path.resolve(this.filePath);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(
+        filePath,
+        JSON.stringify({ id: messageId, sentAt: new Date(), ...message }) + '\n'
+      );
+    }
+
+    return {
+      provider: this.name,
+      messageId,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+export interface SmsMessage {
+  to: string; // E.164, e.g. +15551234567
+  body: string;
+}
+
+export interface SmsResult {
+  provider: string;
+  messageId: string;
+}
+
+/**
+ * A backend capable of delivering text messages.
+ * The SMS worker depends on this rather than a specific gateway.
+ */
+export interface SmsProvider {
+  readonly name: string;
+
+  send(message: SmsMessage): Promise<SmsResult>;
+}
@@ -0,0 +1,56 @@
+import { AppConfig } from '../../config/app.config';
+import { SmsProvider, SmsMessage, SmsResult } from './sms.provider';
+
+// Fields used from a Messages API reply; errors carry code and message instead of sid
+interface TwilioMessageResponse {
+  sid?: string;
+  code?: number;
+  message?: string;
+}
+
+/**
+ * Adapter for the Twilio Messages REST API, or any gateway that mimics it
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  private baseUrl: string;
+  private accountSid: string;
+  private authToken: string;
+  private from: string;
+
+  constructor() {
+    this.baseUrl = AppConfig.twilioBaseUrl.replace(/\/+$/, '');
+    this.accountSid = AppConfig.twilioAccountSid;
+    this.authToken = AppConfig.twilioAuthToken;
+    this.from = AppConfig.twilioFromNumber;
+  }
+
+  async send(message: SmsMessage): Promise<SmsResult> {
+    const url = `${this.baseUrl}/2010-04-01/Accounts/${encodeURIComponent(this.accountSid)}/Messages.json`;
+    const credentials = Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        To: message.to,
+        From: this.from,
+        Body: message.body,
+      }),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as TwilioMessageResponse;
+
+    if (!response.ok) {
+      throw new Error(`Twilio request failed (${response.status}): ${body.message || response.statusText}${body.code ? ` [${body.code}]` : ''}`);
+    }
+
+    return {
+      provider: this.name,
+      messageId: body.sid || 'unknown',
+    };
+  }
+}
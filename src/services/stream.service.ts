@@ -0,0 +1,133 @@
+import Redis from 'ioredis';
+import { RedisConfig } from '../config/redis.config';
+import { Logger } from '../utils/logger';
+
+export type StreamEventType = 'chunk' | 'done' | 'error';
+
+export interface StreamEvent {
+  type: StreamEventType;
+  jobId: string;
+  messageId: string;
+  chatRoomId: string;
+  delta?: string;
+  savedMessageId?: string;
+  error?: string;
+  timestamp: string;
+}
+
+export type StreamEventHandler = (event: StreamEvent) => void;
+
+export class StreamService {
+  private static logger = Logger.getInstance();
+  private static publisher = RedisConfig.getRedisClient();
+  private static subscriber: Redis | null = null;
+  private static handlers = new Map<string, Set<StreamEventHandler>>();
+
+  /**
+   * Redis channel carrying AI reply chunks for a chatroom
+   */
+  private static getChannel(chatRoomId: string): string {
+    return `stream:chatroom:${chatRoomId}`;
+  }
+
+  /**
+   * Publish a stream event for a chatroom
+   */
+  static async publish(event: Omit<StreamEvent, 'timestamp'>): Promise<void> {
+    try {
+      const payload: StreamEvent = {
+        ...event,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.publisher.publish(this.getChannel(event.chatRoomId), JSON.stringify(payload));
+    } catch (error) {
+      // Streaming is best-effort; the saved message remains the source of truth
+      this.logger.error(`Failed to publish stream event for chatroom ${event.chatRoomId}:`, error);
+    }
+  }
+
+  /**
+   * Subscribe to stream events for a chatroom.
+   * Returns a function that tears down the subscription.
+   */
+  static async subscribe(
+    chatRoomId: string,
+    handler: StreamEventHandler
+  ): Promise<() => Promise<void>> {
+    const channel = this.getChannel(chatRoomId);
+    const subscriber = this.getSubscriber();
+
+    const handlers = this.handlers.get(channel) ?? new Set<StreamEventHandler>();
+    handlers.add(handler);
+    this.handlers.set(channel, handlers);
+
+    const unsubscribe = async (): Promise<void> => {
+      const current = this.handlers.get(channel);
+      if (!current?.delete(handler) || current.size > 0) {
+        return;
+      }
+
+      // Commands on one connection run in order, so a later subscribe to the channel still wins
+      this.handlers.delete(channel);
+      try {
+        await subscriber.unsubscribe(channel);
+        this.logger.debug(`Unsubscribed from stream for chatroom: ${chatRoomId}`);
+      } catch (error) {
+        this.logger.error(`Failed to unsubscribe from stream for chatroom ${chatRoomId}:`, error);
+      }
+    };
+
+    try {
+      // Subscribing again to a channel is harmless, and resolves once Redis confirms it
+      await subscriber.subscribe(channel);
+    } catch (error) {
+      await unsubscribe();
+      throw error;
+    }
+    this.logger.debug(`Subscribed to stream for chatroom: ${chatRoomId}`);
+
+    return unsubscribe;
+  }
+
+  /**
+   * Subscriber connections cannot issue regular commands, so every stream shares one dedicated connection
+   */
+  private static getSubscriber(): Redis {
+    if (this.subscriber) {
+      return this.subscriber;
+    }
+
+    const subscriber = RedisConfig.getRedisClient();
+
+    subscriber.on('message', (channel: string, message: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) {
+        return;
+      }
+
+      let event: StreamEvent;
+      try {
+        event = JSON.parse(message) as StreamEvent;
+      } catch (error) {
+        this.logger.error(`Failed to parse stream event on ${channel}:`, error);
+        return;
+      }
+
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch (error) {
+          this.logger.error(`Failed to handle stream event on ${channel}:`, error);
+        }
+      }
+    });
+
+    subscriber.on('error', (error: Error) => {
+      this.logger.error('Stream subscriber error:', error);
+    });
+
+    this.subscriber = subscriber;
+    return subscriber;
+  }
+}
@@ -2,7 +2,7 @@ import Stripe from 'stripe';
 import { AppConfig } from '../config/app.config';
 import { DatabaseConfig } from '../config/database.config';
 import { Logger } from '../utils/logger';
-import { NotFoundError, ConflictError } from '../middleware/error.middleware';
+import { NotFoundError, ConflictError, ValidationError } from '../middleware/error.middleware';
 
 export interface CreateCustomerData {
   userId: string;
@@ -10,10 +10,14 @@ export interface CreateCustomerData {
   name?: string;
 }
 
-export interface CreateSubscriptionData {
+export interface CreateCheckoutSessionData {
   userId: string;
   customerId: string;
   priceId: string;
+  successUrl: string;
+  cancelUrl: string;
+  trialPeriodDays?: number | undefined;
+  promotionCodeId?: string | undefined; // without one, customers may enter a promotion code at checkout
   metadata?: Record<string, string>;
 }
 
@@ -72,27 +76,78 @@ export class StripeService {
   }
 
   /**
-   * Create a subscription
+   * Create a hosted Checkout session for a subscription. The customer enters a
+   * payment method there; the subscription exists once checkout completes.
    */
-  async createSubscription(data: CreateSubscriptionData): Promise<Stripe.Subscription> {
+  async createCheckoutSession(data: CreateCheckoutSessionData): Promise<Stripe.Checkout.Session> {
     try {
-      const subscription = await this.stripe.subscriptions.create({
+      const metadata = {
+        userId: data.userId,
+        ...data.metadata,
+      };
+
+      const session = await this.stripe.checkout.sessions.create({
+        mode: 'subscription',
         customer: data.customerId,
-        items: [{ price: data.priceId }],
-        metadata: {
-          userId: data.userId,
-          ...data.metadata,
+        client_reference_id: data.userId,
+        line_items: [{ price: data.priceId, quantity: 1 }],
+        metadata,
+        subscription_data: {
+          metadata,
+          ...(data.trialPeriodDays && { trial_period_days: data.trialPeriodDays }),
         },
-        payment_behavior: 'default_incomplete',
-        payment_settings: { save_default_payment_method: 'on_subscription' },
-        expand: ['latest_invoice.payment_intent'],
+        // Stripe accepts either a preset discount or a code field, not both
+        ...(data.promotionCodeId
+          ? { discounts: [{ promotion_code: data.promotionCodeId }] }
+          : { allow_promotion_codes: true }),
+        success_url: data.successUrl,
+        cancel_url: data.cancelUrl,
       });
 
-      this.logger.info(`Stripe subscription created: ${subscription.id} for user: ${data.userId}`);
-      return subscription;
+      this.logger.info(`Checkout session created: ${session.id} for user: ${data.userId}`);
+      return session;
+    } catch (error) {
+      // Stripe has the final say on whether a promotion code applies
+      if (data.promotionCodeId && error instanceof Stripe.errors.StripeInvalidRequestError) {
+        throw new ValidationError(`Promo code cannot be applied: ${error.message}`);
+      }
+      this.logger.error('Failed to create checkout session:', error);
+      throw new Error('Failed to create checkout session');
+    }
+  }
+
+  /**
+   * Look up an active promotion code by the code a customer typed.
+   * Raw coupon IDs are not accepted: they carry no redemption restrictions.
+   */
+  async findPromotionCode(code: string): Promise<Stripe.PromotionCode | null> {
+    try {
+      const promotionCodes = await this.stripe.promotionCodes.list({ code, active: true, limit: 1 });
+      return promotionCodes.data[0] ?? null;
     } catch (error) {
-      this.logger.error('Failed to create Stripe subscription:', error);
-      throw new Error('Failed to create subscription');
+      if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+        throw new ValidationError('Promo code is invalid');
+      }
+      this.logger.error('Failed to look up promotion code:', error);
+      throw new Error('Failed to look up promotion code');
+    }
+  }
+
+  /**
+   * Create a Customer Portal session where customers manage billing themselves
+   */
+  async createPortalSession(customerId: string, returnUrl: string): Promise<Stripe.BillingPortal.Session> {
+    try {
+      const session = await this.stripe.billingPortal.sessions.create({
+        customer: customerId,
+        return_url: returnUrl,
+      });
+
+      this.logger.info(`Customer portal session created for customer: ${customerId}`);
+      return session;
+    } catch (error) {
+      this.logger.error('Failed to create customer portal session:', error);
+      throw new Error('Failed to create customer portal session');
     }
   }
 
@@ -130,6 +185,65 @@ export class StripeService {
     }
   }
 
+  /**
+   * End a subscription's trial now, so the first invoice is charged straight away
+   */
+  async endTrial(subscriptionId: string): Promise<Stripe.Subscription> {
+    try {
+      const subscription = await this.stripe.subscriptions.update(subscriptionId, {
+        trial_end: 'now',
+      });
+
+      this.logger.info(`Stripe subscription trial ended: ${subscriptionId}`);
+      return subscription;
+    } catch (error) {
+      this.logger.error('Failed to end Stripe subscription trial:', error);
+      throw new Error('Failed to end subscription trial');
+    }
+  }
+
+  /**
+   * Add a price, such as a metered one, to an existing subscription
+   */
+  async addSubscriptionItem(subscriptionId: string, priceId: string): Promise<Stripe.SubscriptionItem> {
+    try {
+      const item = await this.stripe.subscriptionItems.create({
+        subscription: subscriptionId,
+        price: priceId,
+      });
+
+      this.logger.info(`Price ${priceId} added to subscription: ${subscriptionId}`);
+      return item;
+    } catch (error) {
+      this.logger.error('Failed to add subscription item:', error);
+      throw new Error('Failed to add subscription item');
+    }
+  }
+
+  /**
+   * Report metered usage for a subscription item. The idempotency key makes a
+   * retried report count once.
+   */
+  async reportUsage(subscriptionItemId: string, quantity: number, idempotencyKey: string): Promise<Stripe.UsageRecord> {
+    try {
+      const record = await this.stripe.subscriptionItems.createUsageRecord(
+        subscriptionItemId,
+        {
+          quantity,
+          action: 'increment',
+          timestamp: Math.floor(Date.now() / 1000),
+        },
+        { idempotencyKey }
+      );
+
+      this.logger.info(`Reported ${quantity} usage units for subscription item: ${subscriptionItemId}`);
+      return record;
+    } catch (error) {
+      this.logger.error('Failed to report usage:', error);
+      throw new Error('Failed to report usage');
+    }
+  }
+
   /**
    * Create a payment intent
    */
@@ -208,7 +322,7 @@ export class StripeService {
   /**
    * Verify webhook signature
    */
-  verifyWebhookSignature(payload: string, signature: string): Stripe.Event {
+  verifyWebhookSignature(payload: string | Buffer, signature: string): Stripe.Event {
     try {
       const event = this.stripe.webhooks.constructEvent(
         payload,
@@ -225,11 +339,13 @@ export class StripeService {
   /**
    * Get subscription price IDs
    */
-  getPriceIds(): { basic: string; pro: string } {
+  getPriceIds(): { basic: string; pro: string; proOverage: string } {
     // These should be configured in environment variables
     return {
       basic: process.env.STRIPE_BASIC_PRICE_ID || 'price_basic',
       pro: process.env.STRIPE_PRO_PRICE_ID || 'price_pro',
+      // Metered price for pro messages past the daily limit; empty disables overage billing
+      proOverage: process.env.STRIPE_PRO_OVERAGE_PRICE_ID || '',
     };
   }
 
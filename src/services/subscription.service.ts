@@ -1,28 +1,88 @@
+import Stripe from 'stripe';
+import crypto from 'crypto';
+import { Prisma, Subscription, User } from '@prisma/client';
 import { DatabaseConfig } from '../config/database.config';
 import { StripeService } from './stripe.service';
 import { Logger } from '../utils/logger';
-import { NotFoundError, ConflictError, PaymentError } from '../middleware/error.middleware';
+import { NotFoundError, ConflictError, PaymentError, ValidationError } from '../middleware/error.middleware';
 import { AppConfig } from '../config/app.config';
+import { QueueService } from './queue.service';
+import { EmailTemplateName, renderEmailTemplate } from './email';
+
+// Keyed, so the short space of mobile numbers cannot be brute-forced from a leaked table
+const hashMobileNumber = (mobileNumber: string): string =>
+  crypto.createHmac('sha256', AppConfig.trialHashKey).update(mobileNumber).digest('hex');
+
+// Stripe statuses in which the subscriber keeps the paid tier without a grace period
+const PAID_STATUSES: string[] = ['active', 'trialing'];
 
 export interface SubscriptionData {
   userId: string;
   tier: 'basic' | 'pro';
-  status: 'active' | 'canceled' | 'incomplete' | 'past_due' | 'unpaid';
+  status: 'active' | 'trialing' | 'canceled' | 'incomplete' | 'past_due' | 'unpaid';
   stripeSubscriptionId: string | undefined;
   stripePriceId: string | undefined;
   currentPeriodStart: Date | undefined;
   currentPeriodEnd: Date | undefined;
+  gracePeriodEndsAt: Date | undefined;
+  trialEndsAt: Date | undefined;
+  discount: SubscriptionDiscount | undefined;
+}
+
+export interface SubscriptionDiscount {
+  couponId: string;
+  name: string | null;
+  percentOff: number | null;
+  amountOff: number | null; // in the smallest currency unit
+  currency: string | null;
+  duration: 'forever' | 'once' | 'repeating';
+  durationInMonths: number | null;
+  promoCode: string | null;
+  endsAt: string | null;
 }
 
 export interface UsageData {
   userId: string;
   date: Date;
   messageCount: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface TokenTotals {
+  user: TokenUsage & { aiMessages: number };
+  chatrooms: Array<TokenUsage & { chatroomId: string; name: string | null; aiMessages: number }>;
+}
+
+export interface OverageSummary {
+  available: boolean; // a metered price is configured and the user is on pro
+  enabled: boolean;
+  monthlyCapUsd: number | null;
+  unitPriceUsd: number;
+  periodStart: Date;
+  periodEnd: Date;
+  messages: number;
+  reportedMessages: number;
+  costUsd: number;
 }
 
 export interface SubscriptionLimits {
   dailyMessageLimit: number;
+  dailyTokenLimit: number; // 0 = unlimited
   features: string[];
+  allowedModels: string[];
+  maxOutputTokens: number;
+  maxSystemPromptLength: number;
+  maxContextTokenBudget: number;
 }
 
 export class SubscriptionService {
@@ -42,13 +102,18 @@ export class SubscriptionService {
   }
 
   /**
-   * Create a new subscription
+   * Start a Stripe Checkout session for the pro plan, with a free trial for first-time
+   * subscribers and an optional promotion or coupon code. Nothing is stored locally
+   * until Stripe reports the checkout as completed.
    */
-  async createSubscription(userId: string, tier: 'basic' | 'pro'): Promise<SubscriptionData> {
+  async createCheckoutSession(userId: string, options: { promoCode?: string } = {}): Promise<{
+    sessionId: string;
+    url: string;
+    trialDays: number;
+  }> {
     try {
       const db = DatabaseConfig.getClient();
 
-      // Get user
       const user = await db.user.findUnique({
         where: { id: userId }
       });
@@ -57,89 +122,171 @@ export class SubscriptionService {
         throw new NotFoundError('User not found');
       }
 
-      // Check if user already has a subscription
       const existingSubscription = await db.subscription.findUnique({
         where: { userId }
       });
 
-      if (existingSubscription) {
-        throw new ConflictError('User already has a subscription');
+      if (existingSubscription && existingSubscription.tier === 'pro' && existingSubscription.status !== 'canceled') {
+        throw new ConflictError('You already have a pro subscription; manage it from the billing portal');
       }
 
-      // Get Stripe price ID for the tier
-      const priceIds = this.stripeService.getPriceIds();
-      const priceId = tier === 'pro' ? priceIds.pro : priceIds.basic;
+      const customerId = await this.getOrCreateCustomer(user);
+      const promotionCodeId = options.promoCode
+        ? await this.checkPromotionCode(options.promoCode, customerId, !existingSubscription?.stripeSubscriptionId)
+        : undefined;
 
-      // Create or get Stripe customer
-      let customerId = user.stripeCustomerId;
-      if (!customerId) {
-        const customerData: any = {
-          userId,
-          mobileNumber: user.mobileNumber,
-        };
+      const trialDays = await this.checkTrialEligibility(user) ? AppConfig.proTrialDays : 0;
 
-        // Only add name if it is defined
-        if (user.name) {
-          customerData.name = user.name;
+      const session = await this.stripeService.createCheckoutSession({
+        userId,
+        customerId,
+        priceId: this.stripeService.getPriceIds().pro,
+        successUrl: AppConfig.checkoutSuccessUrl,
+        cancelUrl: AppConfig.checkoutCancelUrl,
+        trialPeriodDays: trialDays,
+        promotionCodeId,
+        metadata: {
+          tier: 'pro',
+          ...(options.promoCode && { promoCode: options.promoCode })
         }
+      });
 
-        const customer = await this.stripeService.createCustomer(customerData);
-        customerId = customer.id;
-
-        // Update user with customer ID
-        await db.user.update({
-          where: { id: userId },
-          data: { stripeCustomerId: customerId }
-        });
+      if (!session.url) {
+        throw new PaymentError('Stripe did not return a checkout URL');
       }
 
-      // Create Stripe subscription
-      const stripeSubscription = await this.stripeService.createSubscription({
-        userId,
-        customerId,
-        priceId,
-        metadata: { tier }
+      this.logger.info(`Checkout started for user ${userId}: ${session.id}${trialDays ? ` with a ${trialDays}-day trial` : ''}`);
+      return { sessionId: session.id, url: session.url, trialDays };
+    } catch (error) {
+      this.logger.error('Failed to create checkout session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open the Stripe Customer Portal for a user who has been through checkout
+   */
+  async createPortalSession(userId: string): Promise<{ url: string }> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const user = await db.user.findUnique({
+        where: { id: userId }
       });
 
-      // Create subscription record
-      const subscription = await db.subscription.create({
-        data: {
-          userId,
-          stripeSubscriptionId: stripeSubscription.id,
-          stripePriceId: priceId,
-          stripeCurrentPeriodStart: new Date(stripeSubscription.current_period_start * 1000),
-          stripeCurrentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
-          status: stripeSubscription.status,
-          tier
-        }
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      if (!user.stripeCustomerId) {
+        throw new NotFoundError('No billing account found; subscribe first');
+      }
+
+      const session = await this.stripeService.createPortalSession(user.stripeCustomerId, AppConfig.billingPortalReturnUrl);
+      return { url: session.url };
+    } catch (error) {
+      this.logger.error('Failed to create portal session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or refresh the local subscription once Stripe reports a completed checkout.
+   * Safe to run more than once for the same session.
+   */
+  async activateFromCheckout(session: Stripe.Checkout.Session): Promise<void> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      if (session.mode !== 'subscription' || !session.subscription) {
+        this.logger.warn(`Checkout session ${session.id} has no subscription; ignoring`);
+        return;
+      }
+
+      const userId = session.client_reference_id ?? session.metadata?.userId;
+      if (!userId) {
+        this.logger.warn(`Checkout session ${session.id} is not linked to a user; ignoring`);
+        return;
+      }
+
+      const user = await db.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        this.logger.warn(`Checkout session ${session.id} belongs to a missing user ${userId}; ignoring`);
+        return;
+      }
+
+      // The session only carries the ID; fetch the subscription for its current period and price
+      let stripeSubscription = typeof session.subscription === 'string'
+        ? await this.stripeService.getSubscription(session.subscription)
+        : session.subscription;
+
+      const tier: 'basic' | 'pro' = session.metadata?.tier === 'basic' ? 'basic' : 'pro';
+
+      // Eligibility was checked when the checkout opened; another checkout for the same number
+      // may have taken the trial since, in which case this subscription starts without one
+      const trialEnd = this.getTrialEnd(stripeSubscription);
+      if (trialEnd && stripeSubscription.status === 'trialing' && !(await this.claimTrial(user, tier, trialEnd, stripeSubscription.id))) {
+        this.logger.info(`Trial for user ${userId} was already used by this mobile number; starting the subscription without it`);
+        stripeSubscription = await this.stripeService.endTrial(stripeSubscription.id);
+      }
+
+      const data = {
+        stripeSubscriptionId: stripeSubscription.id,
+        stripePriceId: this.getBasePriceId(stripeSubscription),
+        overageSubscriptionItemId: this.getOverageItemId(stripeSubscription),
+        stripeCurrentPeriodStart: new Date(stripeSubscription.current_period_start * 1000),
+        stripeCurrentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
+        status: stripeSubscription.status,
+        tier,
+        gracePeriodEndsAt: null,
+        trialEndsAt: this.getTrialEnd(stripeSubscription),
+        discount: this.getDiscountSnapshot(stripeSubscription)
+      };
+
+      await db.subscription.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data
       });
 
-      // Update user subscription tier
+      const customerId = typeof session.customer === 'string' ? session.customer : session.customer?.id;
       await db.user.update({
         where: { id: userId },
-        data: { 
-          subscriptionTier: tier,
-          subscriptionStatus: stripeSubscription.status
+        data: {
+          ...this.resolveUserPlan(tier, stripeSubscription.status, null),
+          ...(customerId && { stripeCustomerId: customerId })
         }
       });
 
-      this.logger.info(`Subscription created for user ${userId}: ${tier} tier`);
-
-      return {
-        userId,
-        tier,
-        status: subscription.status as any,
-        stripeSubscriptionId: subscription.stripeSubscriptionId || undefined,
-        stripePriceId: subscription.stripePriceId || undefined,
-        currentPeriodStart: subscription.stripeCurrentPeriodStart || undefined,
-        currentPeriodEnd: subscription.stripeCurrentPeriodEnd || undefined,
-      };
+      this.logger.info(`Subscription activated from checkout for user ${userId}: ${tier} tier`);
     } catch (error) {
-      this.logger.error('Failed to create subscription:', error);
+      this.logger.error('Failed to activate subscription from checkout:', error);
       throw error;
     }
   }
 
+  /**
+   * Stripe customer for a user, created on first use
+   */
+  private async getOrCreateCustomer(user: User): Promise<string> {
+    if (user.stripeCustomerId) {
+      return user.stripeCustomerId;
+    }
+
+    const customer = await this.stripeService.createCustomer({
+      userId: user.id,
+      mobileNumber: user.mobileNumber,
+      ...(user.name && { name: user.name })
+    });
+
+    await DatabaseConfig.getClient().user.update({
+      where: { id: user.id },
+      data: { stripeCustomerId: customer.id }
+    });
+
+    return customer.id;
+  }
+
   /**
    * Get subscription details
    */
@@ -163,6 +310,9 @@ export class SubscriptionService {
         stripePriceId: subscription.stripePriceId || undefined,
         currentPeriodStart: subscription.stripeCurrentPeriodStart || undefined,
         currentPeriodEnd: subscription.stripeCurrentPeriodEnd || undefined,
+        gracePeriodEndsAt: subscription.gracePeriodEndsAt || undefined,
+        trialEndsAt: subscription.trialEndsAt || undefined,
+        discount: (subscription.discount as unknown as SubscriptionDiscount | null) || undefined,
       };
     } catch (error) {
       this.logger.error('Failed to get subscription:', error);
@@ -189,22 +339,11 @@ export class SubscriptionService {
         throw new PaymentError('No Stripe subscription ID found');
       }
 
-      // Cancel in Stripe
-      await this.stripeService.cancelSubscription(subscription.stripeSubscriptionId);
-
-      // Update local record
-      await db.subscription.update({
-        where: { userId },
-        data: { status: 'canceled' }
-      });
+      // Cancel in Stripe; the subscription stays active until the end of the paid period
+      const stripeSubscription = await this.stripeService.cancelSubscription(subscription.stripeSubscriptionId);
+      await this.syncSubscriptionFromStripe(stripeSubscription);
 
-      // Update user
-      await db.user.update({
-        where: { id: userId },
-        data: { subscriptionStatus: 'canceled' }
-      });
-
-      this.logger.info(`Subscription cancelled for user ${userId}`);
+      this.logger.info(`Subscription cancelled for user ${userId} at period end`);
     } catch (error) {
       this.logger.error('Failed to cancel subscription:', error);
       throw error;
@@ -231,19 +370,8 @@ export class SubscriptionService {
       }
 
       // Reactivate in Stripe
-      await this.stripeService.reactivateSubscription(subscription.stripeSubscriptionId);
-
-      // Update local record
-      await db.subscription.update({
-        where: { userId },
-        data: { status: 'active' }
-      });
-
-      // Update user
-      await db.user.update({
-        where: { id: userId },
-        data: { subscriptionStatus: 'active' }
-      });
+      const stripeSubscription = await this.stripeService.reactivateSubscription(subscription.stripeSubscriptionId);
+      await this.syncSubscriptionFromStripe(stripeSubscription);
 
       this.logger.info(`Subscription reactivated for user ${userId}`);
     } catch (error) {
@@ -253,9 +381,10 @@ export class SubscriptionService {
   }
 
   /**
-   * Track message usage
+   * Track message usage. Pass overage when canSendMessage let the message through
+   * as billed overage.
    */
-  async trackMessageUsage(userId: string): Promise<void> {
+  async trackMessageUsage(userId: string, options: { overage?: boolean } = {}): Promise<void> {
     try {
       const db = DatabaseConfig.getClient();
       const today = new Date();
@@ -295,6 +424,10 @@ export class SubscriptionService {
         }
       });
 
+      if (options.overage && !(await this.reserveOverageUnit(userId, usage.id))) {
+        this.logger.warn(`Overage cap for user ${userId} was reached by a concurrent message; this one is not billed`);
+      }
+
       this.logger.debug(`Message usage tracked for user ${userId}: ${usage.messageCount} messages today`);
     } catch (error) {
       this.logger.error('Failed to track message usage:', error);
@@ -302,10 +435,49 @@ export class SubscriptionService {
     }
   }
 
+  /**
+   * Track token usage and cost of an AI reply
+   */
+  async trackTokenUsage(userId: string, usage: TokenUsage): Promise<void> {
+    try {
+      const db = DatabaseConfig.getClient();
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+
+      await db.dailyUsage.upsert({
+        where: {
+          userId_date: {
+            userId,
+            date: today
+          }
+        },
+        create: {
+          userId,
+          date: today,
+          promptTokens: usage.promptTokens,
+          responseTokens: usage.responseTokens,
+          totalTokens: usage.totalTokens,
+          costUsd: usage.costUsd
+        },
+        update: {
+          promptTokens: { increment: usage.promptTokens },
+          responseTokens: { increment: usage.responseTokens },
+          totalTokens: { increment: usage.totalTokens },
+          costUsd: { increment: usage.costUsd }
+        }
+      });
+
+      this.logger.debug(`Token usage tracked for user ${userId}: ${usage.totalTokens} tokens`);
+    } catch (error) {
+      this.logger.error('Failed to track token usage:', error);
+      throw error;
+    }
+  }
+
   /**
    * Check if user can send message
    */
-  async canSendMessage(userId: string): Promise<{ canSend: boolean; reason?: string }> {
+  async canSendMessage(userId: string): Promise<{ canSend: boolean; reason?: string; overage?: boolean }> {
     try {
       const db = DatabaseConfig.getClient();
 
@@ -317,20 +489,46 @@ export class SubscriptionService {
         return { canSend: false, reason: 'User not found' };
       }
 
-      // Check subscription status
-      if (user.subscriptionStatus !== 'active') {
+      // Check subscription status; past_due users are still within their grace period
+      if (!['active', 'trialing', 'past_due'].includes(user.subscriptionStatus)) {
         return { canSend: false, reason: 'Inactive subscription' };
       }
 
       // Get limits for the tier
       const limits = this.getSubscriptionLimits(user.subscriptionTier as 'basic' | 'pro');
 
-      // Check daily message limit
-      if (user.dailyMessageCount >= limits.dailyMessageLimit) {
-        return { canSend: false, reason: 'Daily message limit exceeded' };
+      // Check daily message limit; pro users who opted in continue as billed overage
+      const overage = user.dailyMessageCount >= limits.dailyMessageLimit;
+      if (overage) {
+        const allowance = user.subscriptionTier === 'pro'
+          ? await this.checkOverageAllowance(userId)
+          : { allowed: false };
+
+        if (!allowance.allowed) {
+          return { canSend: false, reason: allowance.reason ?? 'Daily message limit exceeded' };
+        }
       }
 
-      return { canSend: true };
+      // Check daily token limit
+      if (limits.dailyTokenLimit > 0) {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        const usage = await db.dailyUsage.findUnique({
+          where: {
+            userId_date: {
+              userId,
+              date: today
+            }
+          }
+        });
+
+        if (usage && usage.totalTokens >= limits.dailyTokenLimit) {
+          return { canSend: false, reason: 'Daily token limit exceeded' };
+        }
+      }
+
+      return { canSend: true, overage };
     } catch (error) {
       this.logger.error('Failed to check message permission:', error);
       return { canSend: false, reason: 'System error' };
@@ -344,12 +542,22 @@ export class SubscriptionService {
     if (tier === 'pro') {
       return {
         dailyMessageLimit: AppConfig.proTierDailyLimit,
-        features: ['unlimited_messages', 'priority_support', 'advanced_ai']
+        dailyTokenLimit: AppConfig.proTierDailyTokenLimit,
+        features: ['unlimited_messages', 'priority_support', 'advanced_ai'],
+        allowedModels: AppConfig.proTierModels,
+        maxOutputTokens: AppConfig.proTierMaxOutputTokens,
+        maxSystemPromptLength: 8000,
+        maxContextTokenBudget: 32000
       };
     } else {
       return {
         dailyMessageLimit: AppConfig.basicTierDailyLimit,
-        features: ['basic_messages', 'standard_support']
+        dailyTokenLimit: AppConfig.basicTierDailyTokenLimit,
+        features: ['basic_messages', 'standard_support'],
+        allowedModels: AppConfig.basicTierModels,
+        maxOutputTokens: AppConfig.basicTierMaxOutputTokens,
+        maxSystemPromptLength: 2000,
+        maxContextTokenBudget: 8000
       };
     }
   }
@@ -376,7 +584,11 @@ export class SubscriptionService {
       return usage.map(u => ({
         userId: u.userId,
         date: u.date,
-        messageCount: u.messageCount
+        messageCount: u.messageCount,
+        promptTokens: u.promptTokens,
+        responseTokens: u.responseTokens,
+        totalTokens: u.totalTokens,
+        costUsd: u.costUsd
       }));
     } catch (error) {
       this.logger.error('Failed to get usage stats:', error);
@@ -384,6 +596,431 @@ export class SubscriptionService {
     }
   }
 
+  /**
+   * Get token totals for a user and each of their chatrooms
+   */
+  async getTokenTotals(userId: string, days: number = 30): Promise<TokenTotals> {
+    try {
+      const db = DatabaseConfig.getClient();
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - days);
+
+      // Daily usage outlives deleted messages, so it is the source for the user's totals
+      const userTotals = await db.dailyUsage.aggregate({
+        where: {
+          userId,
+          date: { gte: startDate }
+        },
+        _sum: {
+          promptTokens: true,
+          responseTokens: true,
+          totalTokens: true,
+          costUsd: true
+        }
+      });
+
+      const byChatroom = await db.messageMetadata.groupBy({
+        by: ['chatroomId'],
+        where: {
+          userId,
+          createdAt: { gte: startDate }
+        },
+        _sum: {
+          promptTokens: true,
+          responseTokens: true,
+          totalTokens: true,
+          costUsd: true
+        },
+        _count: { _all: true }
+      });
+
+      const chatrooms = await db.chatroom.findMany({
+        where: { id: { in: byChatroom.map(c => c.chatroomId) } },
+        select: { id: true, name: true }
+      });
+      const names = new Map(chatrooms.map(c => [c.id, c.name]));
+
+      return {
+        user: {
+          promptTokens: userTotals._sum.promptTokens || 0,
+          responseTokens: userTotals._sum.responseTokens || 0,
+          totalTokens: userTotals._sum.totalTokens || 0,
+          costUsd: userTotals._sum.costUsd || 0,
+          aiMessages: byChatroom.reduce((sum, c) => sum + c._count._all, 0)
+        },
+        chatrooms: byChatroom
+          .map(c => ({
+            chatroomId: c.chatroomId,
+            name: names.get(c.chatroomId) ?? null,
+            promptTokens: c._sum.promptTokens || 0,
+            responseTokens: c._sum.responseTokens || 0,
+            totalTokens: c._sum.totalTokens || 0,
+            costUsd: c._sum.costUsd || 0,
+            aiMessages: c._count._all
+          }))
+          .sort((a, b) => b.totalTokens - a.totalTokens)
+      };
+    } catch (error) {
+      this.logger.error('Failed to get token totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Overage settings and this billing period's overage for a user
+   */
+  async getOverageSummary(userId: string): Promise<OverageSummary> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const subscription = await db.subscription.findUnique({
+        where: { userId }
+      });
+
+      const period = this.getBillingPeriod(subscription);
+      const totals = await this.getPeriodOverage(userId, period.start);
+
+      return {
+        available: Boolean(this.stripeService.getPriceIds().proOverage) && subscription?.tier === 'pro',
+        enabled: subscription?.overageEnabled ?? false,
+        monthlyCapUsd: subscription?.overageMonthlyCapUsd ?? null,
+        unitPriceUsd: AppConfig.proOverageUnitPriceUsd,
+        periodStart: period.start,
+        periodEnd: period.end,
+        messages: totals.messages,
+        reportedMessages: totals.reportedMessages,
+        costUsd: this.getOverageCost(totals.messages)
+      };
+    } catch (error) {
+      this.logger.error('Failed to get overage summary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Opt in to or out of overage billing and set the monthly spend cap
+   */
+  async updateOverageSettings(
+    userId: string,
+    settings: { enabled?: boolean; monthlyCapUsd?: number | null }
+  ): Promise<OverageSummary> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const subscription = await db.subscription.findUnique({
+        where: { userId }
+      });
+
+      if (!subscription || subscription.tier !== 'pro' || !subscription.stripeSubscriptionId) {
+        throw new NotFoundError('Overage billing requires a pro subscription');
+      }
+
+      const { proOverage } = this.stripeService.getPriceIds();
+      if (settings.enabled && !proOverage) {
+        throw new PaymentError('Overage billing is not available');
+      }
+
+      // The metered price is added once and kept, so usage reported after opting out is still billed
+      let overageSubscriptionItemId = subscription.overageSubscriptionItemId;
+      if (settings.enabled && !overageSubscriptionItemId) {
+        const item = await this.stripeService.addSubscriptionItem(subscription.stripeSubscriptionId, proOverage);
+        overageSubscriptionItemId = item.id;
+      }
+
+      await db.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          overageSubscriptionItemId,
+          ...(settings.enabled !== undefined && { overageEnabled: settings.enabled }),
+          ...(settings.monthlyCapUsd !== undefined && { overageMonthlyCapUsd: settings.monthlyCapUsd })
+        }
+      });
+
+      this.logger.info(`Overage settings updated for user ${userId}`, settings);
+      return this.getOverageSummary(userId);
+    } catch (error) {
+      this.logger.error('Failed to update overage settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Report overage not yet sent to Stripe, one usage record per subscription
+   * (called by the maintenance worker)
+   */
+  async reportOverageUsage(): Promise<{ reportedUsers: number; reportedMessages: number }> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const pending = await db.dailyUsage.findMany({
+        where: {
+          OR: [
+            { overageMessages: { gt: db.dailyUsage.fields.overageReported } },
+            { overageReporting: { not: null } }
+          ]
+        },
+        select: { userId: true },
+        distinct: ['userId']
+      });
+
+      let reportedUsers = 0;
+      let reportedMessages = 0;
+
+      for (const { userId } of pending) {
+        const subscription = await db.subscription.findUnique({
+          where: { userId }
+        });
+
+        if (!subscription?.overageSubscriptionItemId) {
+          this.logger.warn(`User ${userId} has unreported overage but no overage subscription item`);
+          continue;
+        }
+
+        try {
+          const quantity = await this.reportPendingOverage(userId, subscription.overageSubscriptionItemId);
+          if (quantity > 0) {
+            reportedUsers++;
+            reportedMessages += quantity;
+          }
+        } catch (error) {
+          this.logger.error(`Failed to report overage for user ${userId}; will retry on the next run:`, error);
+        }
+      }
+
+      if (reportedUsers > 0) {
+        this.logger.info(`Reported ${reportedMessages} overage messages for ${reportedUsers} users`);
+      }
+      return { reportedUsers, reportedMessages };
+    } catch (error) {
+      this.logger.error('Failed to report overage usage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Report one user's unreported overage. The counts are claimed on the rows before
+   * Stripe is called; a run that dies before recording the result leaves the claim
+   * behind, and the next run repeats exactly that report under the same idempotency key.
+   */
+  private async reportPendingOverage(userId: string, subscriptionItemId: string): Promise<number> {
+    const db = DatabaseConfig.getClient();
+
+    // Finish an interrupted report before claiming anything new
+    let claimed = await db.dailyUsage.findMany({
+      where: { userId, overageReporting: { not: null } },
+      select: { id: true, overageReported: true, overageReporting: true },
+      orderBy: { date: 'asc' }
+    });
+
+    if (claimed.length === 0) {
+      const rows = await db.dailyUsage.findMany({
+        where: { userId, overageMessages: { gt: db.dailyUsage.fields.overageReported } },
+        select: { id: true, overageMessages: true }
+      });
+
+      await db.$transaction(rows.map(row =>
+        db.dailyUsage.update({
+          where: { id: row.id },
+          data: { overageReporting: row.overageMessages }
+        })
+      ));
+
+      claimed = await db.dailyUsage.findMany({
+        where: { userId, overageReporting: { not: null } },
+        select: { id: true, overageReported: true, overageReporting: true },
+        orderBy: { date: 'asc' }
+      });
+    }
+
+    const quantity = claimed.reduce((sum, row) => sum + (row.overageReporting ?? 0) - row.overageReported, 0);
+    if (quantity > 0) {
+      const idempotencyKey = crypto
+        .createHash('sha256')
+        .update(claimed.map(row => `${row.id}:${row.overageReported}-${row.overageReporting}`).join(','))
+        .digest('hex');
+
+      await this.stripeService.reportUsage(subscriptionItemId, quantity, `overage-${idempotencyKey}`);
+    }
+
+    await db.$transaction(claimed.map(row =>
+      db.dailyUsage.update({
+        where: { id: row.id },
+        data: { overageReported: row.overageReporting ?? row.overageReported, overageReporting: null }
+      })
+    ));
+
+    return quantity;
+  }
+
+  /**
+   * Whether a pro user past the daily limit may send one more message as overage
+   */
+  private async checkOverageAllowance(userId: string): Promise<{ allowed: boolean; reason?: string }> {
+    const db = DatabaseConfig.getClient();
+
+    const subscription = await db.subscription.findUnique({
+      where: { userId }
+    });
+
+    if (!subscription?.overageEnabled || !subscription.overageSubscriptionItemId || !PAID_STATUSES.includes(subscription.status)) {
+      return { allowed: false };
+    }
+
+    if (subscription.overageMonthlyCapUsd !== null) {
+      const { messages } = await this.getPeriodOverage(userId, this.getBillingPeriod(subscription).start);
+      if (this.getOverageCost(messages + 1) > subscription.overageMonthlyCapUsd) {
+        return { allowed: false, reason: 'Monthly overage spend cap reached' };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Count one message as billed overage unless that would pass the monthly cap.
+   * Runs serializably so concurrent messages cannot both take the last unit.
+   */
+  private async reserveOverageUnit(userId: string, dailyUsageId: string): Promise<boolean> {
+    const db = DatabaseConfig.getClient();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await db.$transaction(async tx => {
+          const subscription = await tx.subscription.findUnique({
+            where: { userId }
+          });
+
+          if (subscription?.overageMonthlyCapUsd != null) {
+            const { messages } = await this.getPeriodOverage(userId, this.getBillingPeriod(subscription).start, tx);
+            if (this.getOverageCost(messages + 1) > subscription.overageMonthlyCapUsd) {
+              return false;
+            }
+          }
+
+          await tx.dailyUsage.update({
+            where: { id: dailyUsageId },
+            data: { overageMessages: { increment: 1 } }
+          });
+          return true;
+        }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+      } catch (error) {
+        // A concurrent message changed the total; try again against the new one
+        if (attempt < 3 && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Current billing period, or the calendar month for users without one
+   */
+  private getBillingPeriod(subscription: Subscription | null): { start: Date; end: Date } {
+    if (subscription?.stripeCurrentPeriodStart && subscription.stripeCurrentPeriodEnd) {
+      return { start: subscription.stripeCurrentPeriodStart, end: subscription.stripeCurrentPeriodEnd };
+    }
+
+    const now = new Date();
+    return {
+      start: new Date(now.getFullYear(), now.getMonth(), 1),
+      end: new Date(now.getFullYear(), now.getMonth() + 1, 1)
+    };
+  }
+
+  private async getPeriodOverage(
+    userId: string,
+    periodStart: Date,
+    db: Prisma.TransactionClient = DatabaseConfig.getClient()
+  ): Promise<{ messages: number; reportedMessages: number }> {
+    // Usage is kept per day, so the day the period started counts in full
+    const firstDay = new Date(periodStart);
+    firstDay.setHours(0, 0, 0, 0);
+
+    const totals = await db.dailyUsage.aggregate({
+      where: { userId, date: { gte: firstDay } },
+      _sum: { overageMessages: true, overageReported: true }
+    });
+
+    return {
+      messages: totals._sum.overageMessages ?? 0,
+      reportedMessages: totals._sum.overageReported ?? 0
+    };
+  }
+
+  private getOverageCost(messages: number): number {
+    return Math.round(messages * AppConfig.proOverageUnitPriceUsd * 100) / 100;
+  }
+
+  /**
+   * Set a user's tier directly, e.g. as a support goodwill gesture.
+   * Stripe is not involved; a later subscription change overrides it.
+   */
+  async adjustTier(userId: string, tier: 'basic' | 'pro'): Promise<{ tier: string; previousTier: string }> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const user = await db.user.findUnique({
+        where: { id: userId }
+      });
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      await db.user.update({
+        where: { id: userId },
+        data: {
+          subscriptionTier: tier,
+          subscriptionStatus: 'active'
+        }
+      });
+
+      this.logger.info(`Tier adjusted for user ${userId}: ${user.subscriptionTier} -> ${tier}`);
+      return { tier, previousTier: user.subscriptionTier };
+    } catch (error) {
+      this.logger.error('Failed to adjust tier:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Give a user their daily message quota back
+   */
+  async resetUserDailyUsage(userId: string): Promise<{ previousCount: number }> {
+    try {
+      const db = DatabaseConfig.getClient();
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+
+      const user = await db.user.findUnique({
+        where: { id: userId }
+      });
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      // The user's count mirrors today's usage row, so both are cleared; token usage is kept
+      await db.$transaction([
+        db.user.update({
+          where: { id: userId },
+          data: { dailyMessageCount: 0 }
+        }),
+        db.dailyUsage.updateMany({
+          where: { userId, date: today },
+          data: { messageCount: 0 }
+        })
+      ]);
+
+      this.logger.info(`Daily message count reset for user ${userId} (was ${user.dailyMessageCount})`);
+      return { previousCount: user.dailyMessageCount };
+    } catch (error) {
+      this.logger.error('Failed to reset daily usage for user:', error);
+      throw error;
+    }
+  }
+
   /**
    * Reset daily usage (called by cron job)
    */
@@ -404,9 +1041,91 @@ export class SubscriptionService {
   }
 
   /**
-   * Update subscription from webhook
+   * Copy a Stripe subscription's status, tier, price and current period onto the
+   * local subscription and the user. Renewals arrive here with the next period.
+   */
+  async syncSubscriptionFromStripe(stripeSubscription: Stripe.Subscription): Promise<void> {
+    try {
+      const db = DatabaseConfig.getClient();
+
+      const subscription = await db.subscription.findUnique({
+        where: { stripeSubscriptionId: stripeSubscription.id }
+      });
+
+      if (!subscription) {
+        // The local row is created by checkout.session.completed; events can arrive before it
+        this.logger.warn(`Subscription not found for Stripe ID: ${stripeSubscription.id}`);
+        return;
+      }
+
+      const priceId = this.getBasePriceId(stripeSubscription) ?? subscription.stripePriceId;
+      const tier = this.getTierForPrice(priceId) ?? (subscription.tier as 'basic' | 'pro');
+      const status = stripeSubscription.status;
+      const gracePeriodEndsAt = this.getGracePeriodEnd(subscription, status);
+      const overageSubscriptionItemId = this.getOverageItemId(stripeSubscription);
+
+      // Usage can only be reported against the item it was incurred on
+      if (subscription.overageSubscriptionItemId && subscription.overageSubscriptionItemId !== overageSubscriptionItemId) {
+        try {
+          await this.reportPendingOverage(subscription.userId, subscription.overageSubscriptionItemId);
+        } catch (error) {
+          this.logger.error(`Failed to report overage for user ${subscription.userId} before its overage item was removed:`, error);
+        }
+      }
+
+      await db.$transaction([
+        db.subscription.update({
+          where: { id: subscription.id },
+          data: {
+            status,
+            tier,
+            stripePriceId: priceId,
+            overageSubscriptionItemId,
+            trialEndsAt: this.getTrialEnd(stripeSubscription),
+            discount: this.getDiscountSnapshot(stripeSubscription),
+            stripeCurrentPeriodStart: new Date(stripeSubscription.current_period_start * 1000),
+            stripeCurrentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
+            gracePeriodEndsAt
+          }
+        }),
+        db.user.update({
+          where: { id: subscription.userId },
+          data: this.resolveUserPlan(tier, status, gracePeriodEndsAt)
+        })
+      ]);
+
+      this.logger.info(`Subscription synced for user ${subscription.userId}: ${tier} tier, ${status}, period ends ${new Date(stripeSubscription.current_period_end * 1000).toISOString()}`);
+
+      // The status change can arrive before the failed invoice that explains it
+      if (gracePeriodEndsAt && !subscription.gracePeriodEndsAt) {
+        await this.notifyGracePeriodStarted(subscription.userId, tier, gracePeriodEndsAt, null);
+      }
+    } catch (error) {
+      this.logger.error('Failed to sync subscription from Stripe:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync from Stripe's current copy of a subscription. Events can arrive out of order,
+   * so the snapshot carried by an event may be older than one already applied.
+   */
+  async refreshSubscriptionFromStripe(stripeSubscriptionId: string): Promise<void> {
+    const stripeSubscription = await this.stripeService.getSubscription(stripeSubscriptionId);
+    await this.syncSubscriptionFromStripe(stripeSubscription);
+  }
+
+  /**
+   * A paid invoice: fetch the subscription so a renewal picks up its new period
+   */
+  async recordPaymentSucceeded(stripeSubscriptionId: string): Promise<void> {
+    await this.refreshSubscriptionFromStripe(stripeSubscriptionId);
+  }
+
+  /**
+   * A failed invoice starts the grace period (once per run of failures) and tells the user
    */
-  async updateSubscriptionFromWebhook(stripeSubscriptionId: string, status: string): Promise<void> {
+  async recordPaymentFailed(stripeSubscriptionId: string, paymentUrl?: string | null): Promise<void> {
     try {
       const db = DatabaseConfig.getClient();
 
@@ -419,22 +1138,307 @@ export class SubscriptionService {
         return;
       }
 
-      // Update subscription status
-      await db.subscription.update({
-        where: { id: subscription.id },
-        data: { status }
-      });
+      const gracePeriodEndsAt = this.getGracePeriodEnd(subscription, 'past_due');
+      const tier = subscription.tier as 'basic' | 'pro';
+
+      await db.$transaction([
+        db.subscription.update({
+          where: { id: subscription.id },
+          data: { status: 'past_due', gracePeriodEndsAt }
+        }),
+        db.user.update({
+          where: { id: subscription.userId },
+          data: this.resolveUserPlan(tier, 'past_due', gracePeriodEndsAt)
+        })
+      ]);
+
+      if (gracePeriodEndsAt && !subscription.gracePeriodEndsAt) {
+        await this.notifyGracePeriodStarted(subscription.userId, tier, gracePeriodEndsAt, paymentUrl);
+      }
+    } catch (error) {
+      this.logger.error('Failed to record failed payment:', error);
+      throw error;
+    }
+  }
 
-      // Update user subscription status
-      await db.user.update({
-        where: { id: subscription.userId },
-        data: { subscriptionStatus: status }
+  /**
+   * Remind a trialing subscriber that the first charge is coming
+   */
+  async notifyTrialEnding(stripeSubscription: Stripe.Subscription): Promise<void> {
+    const db = DatabaseConfig.getClient();
+
+    const subscription = await db.subscription.findUnique({
+      where: { stripeSubscriptionId: stripeSubscription.id }
+    });
+
+    if (!subscription || !stripeSubscription.trial_end) {
+      return;
+    }
+
+    await this.notifyUser(subscription.userId, 'trial_ending', {
+      tier: subscription.tier,
+      trialEndsAt: new Date(stripeSubscription.trial_end * 1000).toUTCString(),
+      link: AppConfig.billingUrl
+    });
+  }
+
+  /**
+   * Move users whose grace period has run out to the basic tier (called by the maintenance worker)
+   */
+  async expireGracePeriods(): Promise<{ downgraded: number }> {
+    try {
+      const db = DatabaseConfig.getClient();
+      const now = new Date();
+
+      const expired = await db.subscription.findMany({
+        where: { status: 'past_due', gracePeriodEndsAt: { lte: now } }
       });
 
-      this.logger.info(`Subscription status updated for user ${subscription.userId}: ${status}`);
+      let downgraded = 0;
+      for (const subscription of expired) {
+        // Clearing the grace period marks it used up, so a past_due subscription stays on basic until it is paid
+        const claimed = await db.$transaction(async tx => {
+          const { count } = await tx.subscription.updateMany({
+            where: { id: subscription.id, status: 'past_due', gracePeriodEndsAt: { lte: now } },
+            data: { gracePeriodEndsAt: null }
+          });
+          if (count === 0) {
+            return false;
+          }
+
+          await tx.user.update({
+            where: { id: subscription.userId },
+            data: this.resolveUserPlan(subscription.tier as 'basic' | 'pro', 'past_due', null)
+          });
+          return true;
+        });
+
+        if (claimed) {
+          downgraded++;
+          this.logger.info(`User ${subscription.userId} downgraded to basic after grace period`);
+          await this.notifyUser(subscription.userId, 'subscription_downgraded', {
+            tier: subscription.tier,
+            link: AppConfig.billingUrl
+          });
+        }
+      }
+
+      return { downgraded };
     } catch (error) {
-      this.logger.error('Failed to update subscription from webhook:', error);
+      this.logger.error('Failed to expire grace periods:', error);
       throw error;
     }
   }
+
+  /**
+   * When a subscription's grace period ends. Falling behind from a paid status starts one;
+   * a past_due subscription without one has already used it up.
+   */
+  private getGracePeriodEnd(subscription: Subscription, status: string): Date | null {
+    if (status !== 'past_due') {
+      return null;
+    }
+    if (subscription.gracePeriodEndsAt) {
+      return subscription.gracePeriodEndsAt;
+    }
+    return PAID_STATUSES.includes(subscription.status)
+      ? new Date(Date.now() + AppConfig.paymentGracePeriodDays * 24 * 60 * 60 * 1000)
+      : null;
+  }
+
+  private async notifyGracePeriodStarted(
+    userId: string,
+    tier: 'basic' | 'pro',
+    gracePeriodEndsAt: Date,
+    paymentUrl?: string | null
+  ): Promise<void> {
+    this.logger.info(`Payment failed for user ${userId}; grace period ends ${gracePeriodEndsAt.toISOString()}`);
+    await this.notifyUser(userId, 'payment_failed', {
+      tier,
+      graceEndsAt: gracePeriodEndsAt.toUTCString(),
+      link: paymentUrl || AppConfig.billingUrl
+    });
+  }
+
+  /**
+   * The tier and status a user is entitled to. Paid tiers last while Stripe collects
+   * payment and until the grace period runs out; otherwise the user is on an active basic plan.
+   */
+  private resolveUserPlan(tier: 'basic' | 'pro', status: string, gracePeriodEndsAt: Date | null): {
+    subscriptionTier: 'basic' | 'pro';
+    subscriptionStatus: string;
+  } {
+    if (PAID_STATUSES.includes(status)) {
+      return { subscriptionTier: tier, subscriptionStatus: status };
+    }
+    if (status === 'past_due' && gracePeriodEndsAt && gracePeriodEndsAt > new Date()) {
+      return { subscriptionTier: tier, subscriptionStatus: status };
+    }
+    return { subscriptionTier: 'basic', subscriptionStatus: 'active' };
+  }
+
+  /**
+   * Whether a user would get the pro trial: trials are on, the user has never
+   * subscribed, and no account with the same mobile number has had one
+   */
+  async isTrialEligible(userId: string): Promise<boolean> {
+    const user = await DatabaseConfig.getClient().user.findUnique({
+      where: { id: userId },
+      select: { id: true, mobileNumber: true }
+    });
+
+    return user ? this.checkTrialEligibility(user) : false;
+  }
+
+  /**
+   * Check a typed promotion code against its restrictions and return its ID.
+   * Stripe checks again at checkout; this gives the customer a clear 400 up front.
+   */
+  private async checkPromotionCode(code: string, customerId: string, isFirstPurchase: boolean): Promise<string> {
+    const promotionCode = await this.stripeService.findPromotionCode(code);
+    if (!promotionCode || !promotionCode.coupon.valid) {
+      throw new ValidationError('Promo code is invalid or has expired');
+    }
+
+    if (promotionCode.expires_at && promotionCode.expires_at * 1000 <= Date.now()) {
+      throw new ValidationError('Promo code has expired');
+    }
+    if (promotionCode.max_redemptions !== null && promotionCode.times_redeemed >= promotionCode.max_redemptions) {
+      throw new ValidationError('Promo code has reached its redemption limit');
+    }
+
+    const codeCustomer = typeof promotionCode.customer === 'string' ? promotionCode.customer : promotionCode.customer?.id;
+    if (codeCustomer && codeCustomer !== customerId) {
+      throw new ValidationError('Promo code is not valid for this account');
+    }
+    if (promotionCode.restrictions.first_time_transaction && !isFirstPurchase) {
+      throw new ValidationError('Promo code is only valid for a first purchase');
+    }
+
+    return promotionCode.id;
+  }
+
+  /**
+   * Record that a mobile number used its trial, so it can never start another, even from
+   * a new account. False when a different subscription already holds the number's trial.
+   */
+  private async claimTrial(
+    user: Pick<User, 'id' | 'mobileNumber'>,
+    tier: 'basic' | 'pro',
+    trialEndsAt: Date,
+    stripeSubscriptionId: string
+  ): Promise<boolean> {
+    const db = DatabaseConfig.getClient();
+    const mobileNumberHash = hashMobileNumber(user.mobileNumber);
+
+    try {
+      await db.trialRedemption.create({
+        data: { mobileNumberHash, userId: user.id, tier, trialEndsAt, stripeSubscriptionId }
+      });
+      return true;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+
+      // Activation can run more than once for the same checkout
+      const existing = await db.trialRedemption.findUnique({ where: { mobileNumberHash } });
+      return existing?.stripeSubscriptionId === stripeSubscriptionId;
+    }
+  }
+
+  private async checkTrialEligibility(user: Pick<User, 'id' | 'mobileNumber'>): Promise<boolean> {
+    if (AppConfig.proTrialDays <= 0) {
+      return false;
+    }
+
+    const db = DatabaseConfig.getClient();
+    const [previousSubscription, redemption] = await Promise.all([
+      db.subscription.findUnique({ where: { userId: user.id } }),
+      db.trialRedemption.findUnique({ where: { mobileNumberHash: hashMobileNumber(user.mobileNumber) } })
+    ]);
+
+    return !previousSubscription && !redemption;
+  }
+
+  private getTrialEnd(stripeSubscription: Stripe.Subscription): Date | null {
+    return stripeSubscription.trial_end ? new Date(stripeSubscription.trial_end * 1000) : null;
+  }
+
+  /**
+   * Coupon details worth showing the user; the code they typed travels in the subscription metadata
+   */
+  private getDiscountSnapshot(stripeSubscription: Stripe.Subscription): Prisma.InputJsonObject | typeof Prisma.DbNull {
+    const discount = stripeSubscription.discount;
+    if (!discount) {
+      return Prisma.DbNull;
+    }
+
+    const { coupon } = discount;
+    return {
+      couponId: coupon.id,
+      name: coupon.name,
+      percentOff: coupon.percent_off,
+      amountOff: coupon.amount_off,
+      currency: coupon.currency,
+      duration: coupon.duration,
+      durationInMonths: coupon.duration_in_months,
+      promoCode: stripeSubscription.metadata.promoCode ?? null,
+      endsAt: discount.end ? new Date(discount.end * 1000).toISOString() : null
+    } satisfies Record<keyof SubscriptionDiscount, unknown>;
+  }
+
+  /**
+   * Price of the plan itself, ignoring the metered overage item
+   */
+  private getBasePriceId(stripeSubscription: Stripe.Subscription): string | null {
+    const { proOverage } = this.stripeService.getPriceIds();
+    return stripeSubscription.items.data.find(item => item.price.id !== proOverage)?.price.id ?? null;
+  }
+
+  private getOverageItemId(stripeSubscription: Stripe.Subscription): string | null {
+    const { proOverage } = this.stripeService.getPriceIds();
+    if (!proOverage) {
+      return null;
+    }
+    return stripeSubscription.items.data.find(item => item.price.id === proOverage)?.id ?? null;
+  }
+
+  private getTierForPrice(priceId: string | null): 'basic' | 'pro' | null {
+    const priceIds = this.stripeService.getPriceIds();
+    if (priceId === priceIds.pro) {
+      return 'pro';
+    }
+    if (priceId === priceIds.basic) {
+      return 'basic';
+    }
+    return null;
+  }
+
+  /**
+   * Email a user with a verified address; billing notices never fail the caller
+   */
+  private async notifyUser(userId: string, template: EmailTemplateName, data: Record<string, string>): Promise<void> {
+    try {
+      const db = DatabaseConfig.getClient();
+      const user = await db.user.findUnique({
+        where: { id: userId },
+        select: { email: true, emailVerifiedAt: true }
+      });
+
+      if (!user?.email || !user.emailVerifiedAt) {
+        this.logger.info(`User ${userId} has no verified email; skipping ${template} notice`);
+        return;
+      }
+
+      await QueueService.getInstance().enqueueEmail({
+        to: user.email,
+        subject: renderEmailTemplate(template, data).subject,
+        template,
+        data
+      });
+    } catch (error) {
+      this.logger.error(`Failed to queue ${template} email for user ${userId}:`, error);
+    }
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,359 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { AppConfig } from '../config/app.config';
+import { DatabaseConfig } from '../config/database.config';
+import { RedisConfig } from '../config/redis.config';
+import { CacheService } from './cache.service';
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError
+} from '../middleware/error.middleware';
+import { Logger } from '../utils/logger';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string; // data: URL of a PNG encoding otpauthUri
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export class TwoFactorService {
+  private static logger = Logger.getInstance();
+  private static redisClient = RedisConfig.getCacheRedisClient();
+  private static readonly ISSUER = 'Gemini Chatroom';
+  private static readonly DIGITS = 6;
+  private static readonly PERIOD_SECONDS = 30;
+  private static readonly ALLOWED_DRIFT_STEPS = 1;
+  private static readonly RECOVERY_CODE_COUNT = 10;
+  private static readonly MAX_FAILED_ATTEMPTS = 5;
+  private static readonly ATTEMPT_WINDOW_SECONDS = 15 * 60;
+
+  /**
+   * Start enrolling an authenticator app. The secret is stored but 2FA stays
+   * off until the first code is confirmed.
+   */
+  static async startEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await db.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: this.encryptSecret(secret) }
+    });
+
+    const label = encodeURIComponent(`${this.ISSUER}:${user.name || user.mobileNumber}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.ISSUER,
+      algorithm: 'SHA1',
+      digits: String(this.DIGITS),
+      period: String(this.PERIOD_SECONDS)
+    });
+    const otpauthUri = `otpauth://totp/${label}?${params.toString()}`;
+
+    this.logger.info(`Two-factor enrollment started for user: ${userId}`);
+    return {
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri)
+    };
+  }
+
+  /**
+   * Confirm enrollment with a first code and issue recovery codes
+   */
+  static async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new ValidationError('Start two-factor setup before confirming it');
+    }
+
+    await this.assertTotp(userId, user.twoFactorSecret, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db.$transaction([
+      db.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date() }
+      }),
+      db.recoveryCode.deleteMany({ where: { userId } }),
+      db.recoveryCode.createMany({
+        data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: this.hashRecoveryCode(recoveryCode) }))
+      })
+    ]);
+
+    this.logger.info(`Two-factor authentication enabled for user: ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP or recovery code for a user with 2FA enabled
+   */
+  static async verify(userId: string, code: string): Promise<TwoFactorMethod> {
+    const db = DatabaseConfig.getClient();
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true }
+    });
+
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+
+    const normalized = code.replace(/[\s-]/g, '');
+    if (new RegExp(`^\\d{${this.DIGITS}}$`).test(normalized)) {
+      await this.assertTotp(userId, user.twoFactorSecret, normalized);
+      return 'totp';
+    }
+
+    await this.countAttempt(userId);
+
+    const used = await db.recoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(normalized), usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (used.count === 0) {
+      throw new AuthenticationError('Invalid two-factor code');
+    }
+
+    await CacheService.del(this.attemptsKey(userId));
+    this.logger.info(`Recovery code used by user: ${userId}`);
+    return 'recovery_code';
+  }
+
+  /**
+   * Turn 2FA off after checking a current code
+   */
+  static async disable(userId: string, code: string): Promise<void> {
+    await this.verify(userId, code);
+
+    const db = DatabaseConfig.getClient();
+    await db.$transaction([
+      db.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorEnabledAt: null }
+      }),
+      db.recoveryCode.deleteMany({ where: { userId } })
+    ]);
+
+    this.logger.info(`Two-factor authentication disabled for user: ${userId}`);
+  }
+
+  /**
+   * Replace all recovery codes after checking a current code
+   */
+  static async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.verify(userId, code);
+
+    const db = DatabaseConfig.getClient();
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db.$transaction([
+      db.recoveryCode.deleteMany({ where: { userId } }),
+      db.recoveryCode.createMany({
+        data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: this.hashRecoveryCode(recoveryCode) }))
+      })
+    ]);
+
+    this.logger.info(`Recovery codes regenerated for user: ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Whether 2FA is on and how many recovery codes are left
+   */
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const db = DatabaseConfig.getClient();
+    const [user, recoveryCodesRemaining] = await Promise.all([
+      db.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorEnabled: true, twoFactorEnabledAt: true }
+      }),
+      db.recoveryCode.count({ where: { userId, usedAt: null } })
+    ]);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return {
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: user.twoFactorEnabled ? recoveryCodesRemaining : 0
+    };
+  }
+
+  /**
+   * Verify a TOTP code, allowing one step of clock drift and refusing replays
+   */
+  private static async assertTotp(userId: string, encryptedSecret: string, code: string): Promise<void> {
+    await this.countAttempt(userId);
+
+    const secret = base32Decode(this.decryptSecret(encryptedSecret));
+    const currentStep = Math.floor(Date.now() / 1000 / this.PERIOD_SECONDS);
+    const normalized = code.replace(/\s/g, '');
+    const isWellFormed = normalized.length === this.DIGITS && /^\d+$/.test(normalized);
+
+    for (let drift = -this.ALLOWED_DRIFT_STEPS; isWellFormed && drift <= this.ALLOWED_DRIFT_STEPS; drift++) {
+      const step = currentStep + drift;
+      if (!crypto.timingSafeEqual(Buffer.from(this.generateTotp(secret, step)), Buffer.from(normalized))) {
+        continue;
+      }
+
+      // A code is good for one login only: claim it atomically, and refuse it if Redis cannot say
+      if (!(await this.claimCode(userId, step))) {
+        break;
+      }
+
+      await CacheService.del(this.attemptsKey(userId));
+      return;
+    }
+
+    throw new AuthenticationError('Invalid two-factor code');
+  }
+
+  private static async claimCode(userId: string, step: number): Promise<boolean> {
+    const ttl = this.PERIOD_SECONDS * (this.ALLOWED_DRIFT_STEPS * 2 + 1);
+    try {
+      return (await this.redisClient.set(`2fa:used:${userId}:${step}`, '1', 'EX', ttl, 'NX')) === 'OK';
+    } catch (error) {
+      this.logger.error(`Two-factor replay check failed for user ${userId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * RFC 6238 TOTP (HMAC-SHA1) for a time step
+   */
+  private static generateTotp(secret: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+    const offset = (hmac[hmac.length - 1] ?? 0) & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % Math.pow(10, this.DIGITS)).toString().padStart(this.DIGITS, '0');
+  }
+
+  /**
+   * Count a code check before running it, so concurrent guesses cannot all pass
+   * the limit; a successful check clears the count
+   */
+  private static async countAttempt(userId: string): Promise<void> {
+    const attempts = await CacheService.increment(this.attemptsKey(userId), this.ATTEMPT_WINDOW_SECONDS);
+    if (attempts > this.MAX_FAILED_ATTEMPTS) {
+      throw new RateLimitError('Too many invalid two-factor codes. Please try again later.');
+    }
+  }
+
+  private static attemptsKey(userId: string): string {
+    return `2fa:attempts:${userId}`;
+  }
+
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(crypto.randomBytes(6)).slice(0, 10).toLowerCase();
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+  }
+
+  /**
+   * Secrets are stored with AES-256-GCM as iv.tag.ciphertext (base64)
+   */
+  private static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+  }
+
+  private static decryptSecret(value: string): string {
+    const [iv, tag, ciphertext] = value.split('.').map(part => Buffer.from(part, 'base64'));
+    if (!iv || !tag || !ciphertext) {
+      throw new Error('Malformed two-factor secret');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  private static getEncryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(AppConfig.twoFactorEncryptionKey).digest();
+  }
+}
@@ -0,0 +1,262 @@
+import Stripe from 'stripe';
+import { Prisma, WebhookEvent } from '@prisma/client';
+import { DatabaseConfig } from '../config/database.config';
+import { QueueService } from './queue.service';
+import { SubscriptionService } from './subscription.service';
+import { ConflictError, NotFoundError } from '../middleware/error.middleware';
+import { Logger } from '../utils/logger';
+
+export type WebhookEventStatus = 'received' | 'queued' | 'processing' | 'processed' | 'failed';
+
+export interface WebhookEventSummary {
+  id: string;
+  provider: string;
+  eventId: string;
+  type: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  processedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SUMMARY_SELECT = {
+  id: true,
+  provider: true,
+  eventId: true,
+  type: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  processedAt: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.WebhookEventSelect;
+
+export class WebhookEventService {
+  private static logger = Logger.getInstance();
+  private static readonly MAX_REPLAY_BATCH = 100;
+
+  /**
+   * Store a verified Stripe event and queue it for processing.
+   * Redeliveries of an event that was already queued are ignored.
+   */
+  static async acceptStripeEvent(event: Stripe.Event): Promise<{ id: string; duplicate: boolean }> {
+    const db = DatabaseConfig.getClient();
+
+    let record: WebhookEvent;
+    try {
+      record = await db.webhookEvent.create({
+        data: {
+          provider: 'stripe',
+          eventId: event.id,
+          type: event.type,
+          payload: event as unknown as Prisma.InputJsonObject
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+
+      const existing = await db.webhookEvent.findUnique({ where: { eventId: event.id } });
+      if (!existing) {
+        throw error;
+      }
+
+      // An earlier delivery was stored but never made it onto the queue; this one can finish the job
+      if (existing.status !== 'received') {
+        this.logger.info(`Ignoring duplicate Stripe event ${event.id} (${existing.status})`);
+        return { id: existing.id, duplicate: true };
+      }
+      record = existing;
+    }
+
+    await this.queueEvent(record);
+    return { id: record.id, duplicate: false };
+  }
+
+  /**
+   * Run the handler for a stored Stripe event; called by the webhook worker.
+   * Failures are recorded on the event and rethrown so the job is retried.
+   */
+  static async processStripeEvent(webhookEventId: string): Promise<void> {
+    const db = DatabaseConfig.getClient();
+
+    const record = await db.webhookEvent.findUnique({ where: { id: webhookEventId } });
+    if (!record) {
+      this.logger.warn(`Webhook event ${webhookEventId} not found; skipping`);
+      return;
+    }
+    if (record.status === 'processed') {
+      this.logger.info(`Stripe event ${record.eventId} already processed; skipping`);
+      return;
+    }
+
+    await db.webhookEvent.update({
+      where: { id: record.id },
+      data: { status: 'processing', attempts: { increment: 1 } }
+    });
+
+    try {
+      await this.dispatchStripeEvent(record.payload as unknown as Stripe.Event);
+    } catch (error) {
+      await db.webhookEvent.update({
+        where: { id: record.id },
+        data: {
+          status: 'failed',
+          lastError: error instanceof Error ? error.message : String(error)
+        }
+      });
+      throw error;
+    }
+
+    await db.webhookEvent.update({
+      where: { id: record.id },
+      data: { status: 'processed', lastError: null, processedAt: new Date() }
+    });
+
+    this.logger.info(`Stripe event ${record.eventId} (${record.type}) processed`);
+  }
+
+  /**
+   * Stored events, newest first, paginated by ID
+   */
+  static async listEvents(options: { status?: string; cursor?: string; limit?: number } = {}): Promise<{
+    events: WebhookEventSummary[];
+    nextCursor: string | null;
+  }> {
+    const db = DatabaseConfig.getClient();
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+
+    const events = await db.webhookEvent.findMany({
+      where: options.status ? { status: options.status } : {},
+      select: SUMMARY_SELECT,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+    });
+
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      events: page,
+      nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null
+    };
+  }
+
+  /**
+   * Queue a failed event for another run
+   */
+  static async replayEvent(webhookEventId: string): Promise<WebhookEventSummary> {
+    const db = DatabaseConfig.getClient();
+
+    const record = await db.webhookEvent.findUnique({ where: { id: webhookEventId } });
+    if (!record) {
+      throw new NotFoundError('Webhook event not found');
+    }
+    if (record.status !== 'failed') {
+      throw new ConflictError(`Only failed events can be replayed; this one is ${record.status}`);
+    }
+
+    await this.queueEvent(record);
+
+    this.logger.info(`Stripe event ${record.eventId} queued for replay`);
+    return db.webhookEvent.findUniqueOrThrow({ where: { id: record.id }, select: SUMMARY_SELECT });
+  }
+
+  /**
+   * Queue every failed event for another run, oldest first
+   */
+  static async replayFailedEvents(): Promise<{ replayed: number }> {
+    const db = DatabaseConfig.getClient();
+
+    const failed = await db.webhookEvent.findMany({
+      where: { status: 'failed' },
+      orderBy: { createdAt: 'asc' },
+      take: this.MAX_REPLAY_BATCH
+    });
+
+    for (const record of failed) {
+      await this.queueEvent(record);
+    }
+
+    this.logger.info(`Queued ${failed.length} failed Stripe events for replay`);
+    return { replayed: failed.length };
+  }
+
+  private static async queueEvent(record: WebhookEvent): Promise<void> {
+    const db = DatabaseConfig.getClient();
+
+    // Claim the event first so a concurrent replay or redelivery cannot queue it twice
+    const claimed = await db.webhookEvent.updateMany({
+      where: { id: record.id, status: record.status },
+      data: { status: 'queued' }
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    try {
+      await QueueService.getInstance().enqueueStripeEvent({
+        webhookEventId: record.id,
+        type: record.type
+      });
+    } catch (error) {
+      await db.webhookEvent.update({
+        where: { id: record.id },
+        data: { status: record.status }
+      });
+      throw error;
+    }
+  }
+
+  private static async dispatchStripeEvent(event: Stripe.Event): Promise<void> {
+    const subscriptionService = SubscriptionService.getInstance();
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // This is where the local subscription is created
+        await subscriptionService.activateFromCheckout(event.data.object);
+        break;
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await subscriptionService.refreshSubscriptionFromStripe(event.data.object.id);
+        break;
+
+      case 'invoice.payment_succeeded': {
+        const subscriptionId = this.getInvoiceSubscriptionId(event.data.object);
+        if (subscriptionId) {
+          await subscriptionService.recordPaymentSucceeded(subscriptionId);
+        }
+        break;
+      }
+
+      case 'invoice.payment_failed': {
+        const subscriptionId = this.getInvoiceSubscriptionId(event.data.object);
+        if (subscriptionId) {
+          await subscriptionService.recordPaymentFailed(subscriptionId, event.data.object.hosted_invoice_url);
+        }
+        break;
+      }
+
+      case 'customer.subscription.trial_will_end':
+        await subscriptionService.notifyTrialEnding(event.data.object);
+        break;
+
+      default:
+        this.logger.info(`Unhandled Stripe event type: ${event.type}`);
+    }
+  }
+
+  private static getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+    if (!invoice.subscription) {
+      return null;
+    }
+    return typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+  }
+}
@@ -0,0 +1,100 @@
+import { Worker, Job, UnrecoverableError } from 'bullmq';
+import { Transporter } from 'nodemailer';
+import { AppConfig } from '../config/app.config';
+import { QueueConfig } from '../config/queue.config';
+import { EmailJob } from '../services/queue.service';
+import { CacheService } from '../services/cache.service';
+import { createMailTransport, renderEmailTemplate } from '../services/email';
+import { Logger } from '../utils/logger';
+
+export class EmailWorker {
+  private worker: Worker;
+  private transport: Transporter;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.transport = createMailTransport();
+
+    this.worker = new Worker(
+      QueueConfig.QUEUE_NAMES.EMAIL_NOTIFICATIONS,
+      this.processEmailJob.bind(this),
+      {
+        connection: QueueConfig.getRedisConnection(),
+        concurrency: 5,
+      }
+    );
+
+    this.setupWorkerEventListeners();
+  }
+
+  private setupWorkerEventListeners(): void {
+    this.worker.on('ready', () => {
+      this.logger.info(`Email worker is ready (SMTP ${AppConfig.smtpHost}:${AppConfig.smtpPort})`);
+    });
+
+    this.worker.on('error', (error) => {
+      this.logger.error('Email worker error:', error);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.error(`Email job ${job?.id} failed (attempt ${job?.attemptsMade}):`, err);
+    });
+
+    this.worker.on('completed', (job, result) => {
+      this.logger.info(`Email job ${job.id} completed successfully`, { result });
+    });
+  }
+
+  private async processEmailJob(job: Job<EmailJob>): Promise<{ messageId: string }> {
+    const { to, subject, template, data, secretDataKey } = job.data;
+
+    let secretData: Record<string, unknown> | null = null;
+    if (secretDataKey) {
+      secretData = await CacheService.getJson<Record<string, unknown>>(secretDataKey);
+      if (!secretData) {
+        // The code it carried has expired, so retrying cannot help
+        throw new UnrecoverableError(`Secret data for ${template} email is no longer available`);
+      }
+    }
+
+    const rendered = renderEmailTemplate(template, { ...data, ...secretData });
+
+    // Keep addresses out of the logs beyond the domain
+    this.logger.info(`Sending ${template} email to ***@${to.split('@')[1] ?? ''}`);
+
+    const info = await this.transport.sendMail({
+      from: AppConfig.emailFrom,
+      to,
+      subject: subject || rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+    });
+
+    if (secretDataKey) {
+      await CacheService.del(secretDataKey);
+    }
+
+    return { messageId: info.messageId };
+  }
+
+  // Get worker statistics
+  getWorkerStats(): any {
+    return {
+      name: this.worker.name,
+      transport: `smtp://${AppConfig.smtpHost}:${AppConfig.smtpPort}`,
+      concurrency: this.worker.concurrency,
+      closing: this.worker.closing,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      await this.worker.close();
+      this.transport.close();
+      this.logger.info('Email worker shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down email worker:', error);
+    }
+  }
+}
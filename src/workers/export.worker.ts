@@ -0,0 +1,75 @@
+import { Worker, Job } from 'bullmq';
+import { QueueConfig } from '../config/queue.config';
+import { AccountExportJob } from '../services/queue.service';
+import { ExportService } from '../services/export.service';
+import { Logger } from '../utils/logger';
+
+export class ExportWorker {
+  private worker: Worker;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.worker = new Worker(
+      QueueConfig.QUEUE_NAMES.DATA_EXPORTS,
+      this.processExportJob.bind(this),
+      {
+        connection: QueueConfig.getRedisConnection(),
+        concurrency: 1,
+      }
+    );
+
+    this.setupWorkerEventListeners();
+  }
+
+  private setupWorkerEventListeners(): void {
+    this.worker.on('ready', () => {
+      this.logger.info('Export worker is ready');
+    });
+
+    this.worker.on('error', (error) => {
+      this.logger.error('Export worker error:', error);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.error(`Export job ${job?.id} failed:`, err);
+    });
+
+    this.worker.on('completed', (job, result) => {
+      this.logger.info(`Export job ${job.id} completed successfully`, { result });
+    });
+  }
+
+  private async processExportJob(job: Job<AccountExportJob>): Promise<any> {
+    const { userId } = job.data;
+
+    // Piggyback cleanup of archives past their retention on each export
+    await ExportService.removeExpiredExports();
+
+    const fileName = `export-${userId}-${job.id}.zip`;
+    const archive = await ExportService.createAccountArchive(userId, fileName, async (done, total) => {
+      await job.updateProgress(Math.round((done / Math.max(total, 1)) * 100));
+    });
+
+    await job.updateProgress(100);
+    return archive;
+  }
+
+  // Get worker statistics
+  getWorkerStats(): any {
+    return {
+      name: this.worker.name,
+      concurrency: this.worker.concurrency,
+      closing: this.worker.closing,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      await this.worker.close();
+      this.logger.info('Export worker shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down Export worker:', error);
+    }
+  }
+}
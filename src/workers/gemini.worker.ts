@@ -1,15 +1,23 @@
 import { Worker, Job } from 'bullmq';
 import { QueueConfig } from '../config/queue.config';
 import { GeminiMessageJob } from '../services/queue.service';
-import { GeminiService, GeminiContext, GeminiMessage } from '../services/gemini.service';
+import { GeminiService, GeminiContext } from '../services/gemini.service';
+import { LLMProvider, LLMChunkHandler, calculateCost } from '../services/llm';
+import { StreamService } from '../services/stream.service';
+import { EventService } from '../services/event.service';
+import { ContextService, ConversationContext } from '../services/context.service';
+import type { ChatroomAISettings } from '../services/chatroom.service';
 import { Logger } from '../utils/logger';
 
 export class GeminiWorker {
   private worker: Worker;
   private logger = Logger.getInstance();
   private geminiService = GeminiService.getInstance();
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider = GeminiService.getInstance().getProvider()) {
+    this.provider = provider;
 
-  constructor() {
     this.worker = new Worker(
       QueueConfig.QUEUE_NAMES.GEMINI_PROCESSING,
       this.processGeminiJob.bind(this),
@@ -56,24 +64,42 @@ export class GeminiWorker {
 
     try {
       // Update job progress
-      await job.updateProgress(10);
+      await this.reportProgress(job, 10);
 
-      // Step 1: Initialize Gemini API
-      const geminiResponse = await this.callGeminiAPI(userMessage, context);
-      await job.updateProgress(60);
+      // Step 1: Call Gemini API, streaming chunks to chatroom subscribers
+      const geminiContext = { ...context, chatRoomId, userId, messageId };
+      const geminiResponse = await this.callGeminiAPI(userMessage, geminiContext, async (delta) => {
+        await StreamService.publish({
+          type: 'chunk',
+          jobId: String(job.id),
+          messageId,
+          chatRoomId,
+          delta,
+        });
+      });
+      await this.reportProgress(job, 60);
 
       // Step 2: Process the response
       const processedResponse = await this.processGeminiResponse(geminiResponse, context);
-      await job.updateProgress(80);
+      await this.reportProgress(job, 80);
 
       // Step 3: Save response to database
       const savedMessage = await this.saveGeminiResponse(
         messageId,
         chatRoomId,
         userId,
-        processedResponse
+        processedResponse,
+        context?.replyGroupId
       );
-      await job.updateProgress(100);
+      await this.reportProgress(job, 100);
+
+      await StreamService.publish({
+        type: 'done',
+        jobId: String(job.id),
+        messageId,
+        chatRoomId,
+        savedMessageId: savedMessage.id,
+      });
 
       const result = {
         messageId,
@@ -93,69 +119,111 @@ export class GeminiWorker {
 
     } catch (error) {
       this.logger.error(`Gemini job ${job.id} failed:`, error);
+
+      // Only tell stream subscribers once BullMQ has given up retrying
+      const maxAttempts = job.opts.attempts || 1;
+      if (job.attemptsMade + 1 >= maxAttempts) {
+        await StreamService.publish({
+          type: 'error',
+          jobId: String(job.id),
+          messageId,
+          chatRoomId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
       throw error;
     }
   }
 
-  private async callGeminiAPI(userMessage: string, context?: any): Promise<any> {
+  // Update job progress and notify live subscribers
+  private async reportProgress(job: Job<GeminiMessageJob>, progress: number): Promise<void> {
+    await job.updateProgress(progress);
+    await EventService.publish('ai.job.progress', job.data.chatRoomId, job.data.userId, {
+      jobId: job.id,
+      messageId: job.data.messageId,
+      progress,
+    });
+  }
+
+  private async callGeminiAPI(
+    userMessage: string,
+    context?: any,
+    onChunk?: LLMChunkHandler
+  ): Promise<any> {
     try {
-      // Get conversation history from database
-      const conversationHistory = await this.getConversationHistory(context?.chatRoomId);
+      // Recent turns that fit the token budget, plus the summary of older ones
+      const conversation = await this.getConversationContext(context?.chatRoomId, context?.messageId);
+
+      // Per-chatroom persona and generation settings
+      const settings = await this.getAISettings(context?.chatRoomId);
       
       // Create Gemini context
       const geminiContext: GeminiContext = {
         chatRoomId: context?.chatRoomId || 'unknown',
         userId: context?.userId || 'unknown',
-        conversationHistory: conversationHistory,
-        systemPrompt: this.geminiService.generateSystemPrompt({
-          chatRoomId: context?.chatRoomId,
-          userId: context?.userId,
-        }),
-        temperature: 0.7,
-        maxTokens: 2048,
+        conversationHistory: conversation?.history ?? [],
+        systemPrompt: ContextService.withSummary(
+          this.geminiService.generateSystemPrompt({
+            chatRoomId: context?.chatRoomId,
+            userId: context?.userId,
+            ...(settings?.systemPrompt && { systemPrompt: settings.systemPrompt }),
+          }),
+          conversation?.summary ?? null
+        ),
+        temperature: settings?.temperature ?? 0.7,
+        maxTokens: settings?.maxOutputTokens ?? 2048,
+        ...(settings?.modelName && { model: settings.modelName }),
+        ...(settings?.topP != null && { topP: settings.topP }),
       };
 
-      // Generate response using Gemini API
-      const response = await this.geminiService.generateResponse(userMessage, geminiContext);
+      if (conversation) {
+        await ContextService.scheduleSummaryRefresh(geminiContext.chatRoomId, conversation);
+      }
+
+      // Generate response using the configured LLM provider
+      const response = onChunk
+        ? await this.provider.generateStream(userMessage, geminiContext, onChunk)
+        : await this.provider.generate(userMessage, geminiContext);
       
       return response;
     } catch (error) {
-      this.logger.error('Gemini API call failed:', error);
-      throw new Error('Failed to call Gemini API');
+      this.logger.error(`${this.provider.name} API call failed:`, error);
+      throw new Error(`Failed to call ${this.provider.name} API`);
     }
   }
 
-  private async getConversationHistory(chatRoomId?: string): Promise<GeminiMessage[]> {
+  private async getAISettings(chatRoomId?: string): Promise<ChatroomAISettings | null> {
     if (!chatRoomId) {
-      return [];
+      return null;
     }
 
     try {
       // Import here to avoid circular dependencies
-      const db = (await import('../config/database.config')).DatabaseConfig.getClient();
-      
-      // Get recent messages for context (last 10 messages) without user ownership check
-      const messages = await db.message.findMany({
-        where: { chatroomId: chatRoomId },
-        orderBy: { createdAt: 'asc' },
-        take: 10
+      const { ChatroomService } = await import('../services/chatroom.service');
+      return await ChatroomService.getAISettings(chatRoomId);
+    } catch (error) {
+      this.logger.error('Failed to get chatroom AI settings:', error);
+      return null;
+    }
+  }
+
+  private async getConversationContext(
+    chatRoomId?: string,
+    messageId?: string
+  ): Promise<ConversationContext | null> {
+    if (!chatRoomId) {
+      return null;
+    }
+
+    try {
+      // The triggering message is sent as the prompt, so keep it out of the history
+      return await ContextService.buildContext(chatRoomId, {
+        ...(messageId && { excludeMessageId: messageId }),
       });
-      
-      // Convert to Gemini format
-      const conversationHistory: GeminiMessage[] = [];
-      
-      for (const message of messages) {
-        const role = message.sender === 'user' ? 'user' : 'model';
-        conversationHistory.push({
-          role,
-          parts: [message.content],
-        });
-      }
-      
-      return conversationHistory;
     } catch (error) {
       this.logger.error('Failed to get conversation history:', error);
-      return [];
+      return null;
     }
   }
 
@@ -190,7 +258,8 @@ export class GeminiWorker {
     originalMessageId: string,
     chatRoomId: string,
     userId: string,
-    geminiResponse: any
+    geminiResponse: any,
+    replyGroupId?: string
   ): Promise<any> {
     try {
       // Import here to avoid circular dependencies
@@ -211,16 +280,68 @@ export class GeminiWorker {
         throw new Error('Chatroom not found for AI response');
       }
 
-      // Save the Gemini response as a new message directly in the database
+      const usage = {
+        promptTokens: geminiResponse.usage?.promptTokens || 0,
+        responseTokens: geminiResponse.usage?.responseTokens || 0,
+        totalTokens: geminiResponse.usage?.totalTokens || 0,
+      };
+      // If the prompt was edited away while generating, keep the reply with its hidden branch
+      const prompt = await db.message.findUnique({
+        where: { id: originalMessageId },
+        select: { isActive: true, supersededById: true }
+      });
+
+      // Regenerated replies join the version group of the reply they replace
+      const latestVersion = replyGroupId
+        ? await db.message.aggregate({
+            where: { OR: [{ id: replyGroupId }, { versionGroupId: replyGroupId }] },
+            _max: { version: true }
+          })
+        : null;
+
+      const model = geminiResponse.metadata?.model || this.provider.model;
+      const costUsd = calculateCost(model, usage.promptTokens, usage.responseTokens);
+
+      // Save the Gemini response as a new message directly in the database,
+      // along with the token usage and safety details of the generation
       const savedMessage = await db.message.create({
         data: {
           chatroomId: chatRoomId,
           content: geminiResponse.content,
           sender: 'ai',
-          messageType: 'text'
-        }
+          messageType: 'text',
+          replyToId: prompt ? originalMessageId : null,
+          isActive: prompt?.isActive ?? true,
+          supersededById: prompt?.supersededById ?? null,
+          ...(replyGroupId && {
+            versionGroupId: replyGroupId,
+            version: (latestVersion?._max.version ?? 1) + 1,
+          }),
+          metadata: {
+            create: {
+              chatroomId: chatRoomId,
+              userId,
+              provider: this.provider.name,
+              model,
+              ...usage,
+              costUsd,
+              finishReason: geminiResponse.metadata?.finishReason || null,
+              safetyRatings: geminiResponse.metadata?.safetyRatings || [],
+            }
+          }
+        },
+        include: { metadata: true }
       });
 
+      // Count tokens against the user's daily usage. The reply is already saved, so a
+      // failure here must not fail the job: a retry would save the reply a second time.
+      try {
+        const { SubscriptionService } = await import('../services/subscription.service');
+        await SubscriptionService.getInstance().trackTokenUsage(userId, { ...usage, costUsd });
+      } catch (error) {
+        this.logger.error(`Failed to track token usage for message ${savedMessage.id}:`, error);
+      }
+
       // Update chatroom's updated timestamp
       await db.chatroom.update({
         where: { id: chatRoomId },
@@ -231,6 +352,9 @@ export class GeminiWorker {
       const { CacheService } = await import('../services/cache.service');
       await CacheService.invalidateMessageCache(chatRoomId, userId);
 
+      // Notify live subscribers
+      await EventService.publish('message.created', chatRoomId, userId, { message: savedMessage });
+
       this.logger.info(`Gemini response saved as message: ${savedMessage.id}`);
       return savedMessage;
     } catch (error) {
@@ -249,6 +373,7 @@ export class GeminiWorker {
   getWorkerStats(): any {
     return {
       name: this.worker.name,
+      provider: this.provider.name,
       concurrency: this.worker.concurrency,
       closing: this.worker.closing,
     };
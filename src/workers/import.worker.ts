@@ -0,0 +1,92 @@
+import fs from 'fs';
+import { Worker, Job } from 'bullmq';
+import { QueueConfig } from '../config/queue.config';
+import { ConversationImportJob } from '../services/queue.service';
+import { ImportService } from '../services/import.service';
+import { Logger } from '../utils/logger';
+
+export class ImportWorker {
+  private worker: Worker;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.worker = new Worker(
+      QueueConfig.QUEUE_NAMES.DATA_IMPORTS,
+      this.processImportJob.bind(this),
+      {
+        connection: QueueConfig.getRedisConnection(),
+        concurrency: 1,
+      }
+    );
+
+    this.setupWorkerEventListeners();
+  }
+
+  private setupWorkerEventListeners(): void {
+    this.worker.on('ready', () => {
+      this.logger.info('Import worker is ready');
+    });
+
+    this.worker.on('error', (error) => {
+      this.logger.error('Import worker error:', error);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.error(`Import job ${job?.id} failed:`, err);
+    });
+
+    this.worker.on('completed', (job, result) => {
+      this.logger.info(`Import job ${job.id} completed successfully`, { result });
+    });
+  }
+
+  private async processImportJob(job: Job<ConversationImportJob>): Promise<any> {
+    const { userId, filePath, source } = job.data;
+
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      } catch (error) {
+        throw new Error(`Could not read ${job.data.originalName} as JSON`);
+      }
+
+      const parsed = ImportService.parse(data, source);
+      this.logger.info(`Import job ${job.id}: ${parsed.conversations.length} ${parsed.source} conversations found`);
+
+      const result = await ImportService.importConversations(
+        userId,
+        parsed.source,
+        parsed.conversations,
+        async (done, total) => {
+          await job.updateProgress(Math.round((done / Math.max(total, 1)) * 100));
+        }
+      );
+
+      await job.updateProgress(100);
+      return result;
+    } finally {
+      // The upload is only needed for this job
+      await fs.promises.rm(filePath, { force: true });
+    }
+  }
+
+  // Get worker statistics
+  getWorkerStats(): any {
+    return {
+      name: this.worker.name,
+      concurrency: this.worker.concurrency,
+      closing: this.worker.closing,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      await this.worker.close();
+      this.logger.info('Import worker shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down Import worker:', error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Worker, Job } from 'bullmq';
+import { QueueConfig } from '../config/queue.config';
+import { SmsJob } from '../services/queue.service';
+import { SmsProvider, SmsResult, createSmsProvider } from '../services/sms';
+import { Logger } from '../utils/logger';
+
+export class SmsWorker {
+  private worker: Worker;
+  private provider: SmsProvider;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.provider = createSmsProvider();
+
+    this.worker = new Worker(
+      QueueConfig.QUEUE_NAMES.SMS_NOTIFICATIONS,
+      this.processSmsJob.bind(this),
+      {
+        connection: QueueConfig.getRedisConnection(),
+        concurrency: 5,
+      }
+    );
+
+    this.setupWorkerEventListeners();
+  }
+
+  private setupWorkerEventListeners(): void {
+    this.worker.on('ready', () => {
+      this.logger.info(`SMS worker is ready (provider: ${this.provider.name})`);
+    });
+
+    this.worker.on('error', (error) => {
+      this.logger.error('SMS worker error:', error);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.error(`SMS job ${job?.id} failed (attempt ${job?.attemptsMade}):`, err);
+    });
+
+    this.worker.on('completed', (job, result) => {
+      this.logger.info(`SMS job ${job.id} completed successfully`, { result });
+    });
+  }
+
+  private async processSmsJob(job: Job<SmsJob>): Promise<SmsResult> {
+    const { to, body, purpose } = job.data;
+
+    // Keep phone numbers out of the logs beyond the last digits
+    this.logger.info(`Sending ${purpose} SMS to ***${to.slice(-4)} via ${this.provider.name}`);
+
+    return this.provider.send({ to, body });
+  }
+
+  // Get worker statistics
+  getWorkerStats(): any {
+    return {
+      name: this.worker.name,
+      provider: this.provider.name,
+      concurrency: this.worker.concurrency,
+      closing: this.worker.closing,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      await this.worker.close();
+      this.logger.info('SMS worker shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down SMS worker:', error);
+    }
+  }
+}
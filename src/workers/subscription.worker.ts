@@ -0,0 +1,73 @@
+import { Worker, Job } from 'bullmq';
+import { QueueConfig } from '../config/queue.config';
+import { SubscriptionService } from '../services/subscription.service';
+import { Logger } from '../utils/logger';
+
+export class SubscriptionWorker {
+  private worker: Worker;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.worker = new Worker(
+      QueueConfig.QUEUE_NAMES.SUBSCRIPTION_MAINTENANCE,
+      this.processMaintenanceJob.bind(this),
+      {
+        connection: QueueConfig.getRedisConnection(),
+        concurrency: 1,
+      }
+    );
+
+    this.setupWorkerEventListeners();
+  }
+
+  private setupWorkerEventListeners(): void {
+    this.worker.on('ready', () => {
+      this.logger.info('Subscription worker is ready');
+    });
+
+    this.worker.on('error', (error) => {
+      this.logger.error('Subscription worker error:', error);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.error(`Subscription job ${job?.id} failed (attempt ${job?.attemptsMade}):`, err);
+    });
+
+    this.worker.on('completed', (job, result) => {
+      this.logger.info(`Subscription job ${job.id} completed successfully`, { result });
+    });
+  }
+
+  private async processMaintenanceJob(job: Job): Promise<unknown> {
+    switch (job.name) {
+      case QueueConfig.JOB_TYPES.EXPIRE_GRACE_PERIODS:
+        return SubscriptionService.getInstance().expireGracePeriods();
+
+      case QueueConfig.JOB_TYPES.REPORT_OVERAGE_USAGE:
+        return SubscriptionService.getInstance().reportOverageUsage();
+
+      default:
+        this.logger.warn(`Subscription worker has no handler for job type ${job.name}`);
+        return null;
+    }
+  }
+
+  // Get worker statistics
+  getWorkerStats(): any {
+    return {
+      name: this.worker.name,
+      concurrency: this.worker.concurrency,
+      closing: this.worker.closing,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      await this.worker.close();
+      this.logger.info('Subscription worker shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down subscription worker:', error);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Worker, Job } from 'bullmq';
+import { Message } from '@prisma/client';
+import { QueueConfig } from '../config/queue.config';
+import { ChatroomSummaryJob } from '../services/queue.service';
+import { GeminiService } from '../services/gemini.service';
+import { LLMProvider } from '../services/llm';
+import { ContextService } from '../services/context.service';
+import { Logger } from '../utils/logger';
+
+// Upper bound on batches per job so a huge backlog cannot hog the worker
+const MAX_BATCHES_PER_JOB = 10;
+
+export class SummaryWorker {
+  private worker: Worker;
+  private logger = Logger.getInstance();
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider = GeminiService.getInstance().getProvider()) {
+    this.provider = provider;
+
+    this.worker = new Worker(
+      QueueConfig.QUEUE_NAMES.CHATROOM_SUMMARIES,
+      this.processSummaryJob.bind(this),
+      {
+        connection: QueueConfig.getRedisConnection(),
+        concurrency: 2,
+      }
+    );
+
+    this.setupWorkerEventListeners();
+  }
+
+  private setupWorkerEventListeners(): void {
+    this.worker.on('ready', () => {
+      this.logger.info('Summary worker is ready');
+    });
+
+    this.worker.on('error', (error) => {
+      this.logger.error('Summary worker error:', error);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.error(`Summary job ${job?.id} failed:`, err);
+    });
+
+    this.worker.on('completed', (job, result) => {
+      this.logger.info(`Summary job ${job.id} completed successfully`, { result });
+    });
+  }
+
+  private async processSummaryJob(job: Job<ChatroomSummaryJob>): Promise<any> {
+    const { chatRoomId } = job.data;
+    let summarizedMessages = 0;
+
+    // Fold older turns into the summary batch by batch until it catches up with the window
+    for (let batch = 0; batch < MAX_BATCHES_PER_JOB; batch++) {
+      const { summary, messages } = await ContextService.getMessagesToSummarize(chatRoomId);
+      if (messages.length === 0) {
+        break;
+      }
+
+      const content = await this.summarize(chatRoomId, summary?.content ?? null, messages);
+
+      await ContextService.saveSummary(chatRoomId, content, messages);
+      summarizedMessages += messages.length;
+
+      await job.updateProgress(Math.round(((batch + 1) / MAX_BATCHES_PER_JOB) * 100));
+    }
+
+    return {
+      chatRoomId,
+      summarizedMessages,
+      processedAt: new Date(),
+    };
+  }
+
+  private async summarize(
+    chatRoomId: string,
+    previousSummary: string | null,
+    messages: Message[]
+  ): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.sender === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n');
+
+    const prompt = [
+      previousSummary ? `Existing summary:\n${previousSummary}` : 'There is no existing summary yet.',
+      `New conversation turns:\n${transcript}`,
+      'Write an updated summary that merges the existing summary with the new turns.',
+    ].join('\n\n');
+
+    const response = await this.provider.generate(prompt, {
+      chatRoomId,
+      userId: 'summary-worker',
+      conversationHistory: [],
+      systemPrompt: 'You maintain a running summary of a chat conversation. ' +
+        'Keep names, facts, decisions and open questions. Reply with the summary only, in under 300 words.',
+      temperature: 0.2,
+      maxTokens: 512,
+    });
+
+    const summary = response.content.trim();
+    if (!summary) {
+      throw new Error(`Empty summary returned for chatroom ${chatRoomId}`);
+    }
+
+    return summary;
+  }
+
+  // Get worker statistics
+  getWorkerStats(): any {
+    return {
+      name: this.worker.name,
+      provider: this.provider.name,
+      concurrency: this.worker.concurrency,
+      closing: this.worker.closing,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      await this.worker.close();
+      this.logger.info('Summary worker shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down Summary worker:', error);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { Worker, Job } from 'bullmq';
+import { QueueConfig } from '../config/queue.config';
+import { StripeEventJob } from '../services/queue.service';
+import { WebhookEventService } from '../services/webhookEvent.service';
+import { Logger } from '../utils/logger';
+
+export class WebhookWorker {
+  private worker: Worker;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.worker = new Worker(
+      QueueConfig.QUEUE_NAMES.WEBHOOK_PROCESSING,
+      this.processWebhookJob.bind(this),
+      {
+        connection: QueueConfig.getRedisConnection(),
+        // Events for one subscription should not race each other
+        concurrency: 1,
+      }
+    );
+
+    this.setupWorkerEventListeners();
+  }
+
+  private setupWorkerEventListeners(): void {
+    this.worker.on('ready', () => {
+      this.logger.info('Webhook worker is ready');
+    });
+
+    this.worker.on('error', (error) => {
+      this.logger.error('Webhook worker error:', error);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.error(`Webhook job ${job?.id} failed (attempt ${job?.attemptsMade}):`, err);
+    });
+
+    this.worker.on('completed', (job) => {
+      this.logger.info(`Webhook job ${job.id} completed successfully`);
+    });
+  }
+
+  private async processWebhookJob(job: Job<StripeEventJob>): Promise<void> {
+    if (job.name !== QueueConfig.JOB_TYPES.PROCESS_STRIPE_EVENT) {
+      this.logger.warn(`Webhook worker has no handler for job type ${job.name}`);
+      return;
+    }
+
+    this.logger.info(`Processing Stripe event ${job.data.type} (${job.data.webhookEventId})`);
+    await WebhookEventService.processStripeEvent(job.data.webhookEventId);
+  }
+
+  // Get worker statistics
+  getWorkerStats(): any {
+    return {
+      name: this.worker.name,
+      concurrency: this.worker.concurrency,
+      closing: this.worker.closing,
+    };
+  }
+
+  // Graceful shutdown
+  async shutdown(): Promise<void> {
+    try {
+      await this.worker.close();
+      this.logger.info('Webhook worker shut down gracefully');
+    } catch (error) {
+      this.logger.error('Error shutting down webhook worker:', error);
+    }
+  }
+}
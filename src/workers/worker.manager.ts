@@ -1,5 +1,12 @@
 import { Logger } from '../utils/logger';
 import { GeminiWorker } from './gemini.worker';
+import { SummaryWorker } from './summary.worker';
+import { ExportWorker } from './export.worker';
+import { ImportWorker } from './import.worker';
+import { SmsWorker } from './sms.worker';
+import { EmailWorker } from './email.worker';
+import { WebhookWorker } from './webhook.worker';
+import { SubscriptionWorker } from './subscription.worker';
 
 export class WorkerManager {
   private static instance: WorkerManager;
@@ -22,9 +29,33 @@ export class WorkerManager {
       const geminiWorker = new GeminiWorker();
       this.workers.set('gemini', geminiWorker);
 
-      // Future workers can be added here
-      // const emailWorker = new EmailWorker();
-      // this.workers.set('email', emailWorker);
+      // Initialize chatroom summary worker
+      const summaryWorker = new SummaryWorker();
+      this.workers.set('summary', summaryWorker);
+
+      // Initialize data export worker
+      const exportWorker = new ExportWorker();
+      this.workers.set('export', exportWorker);
+
+      // Initialize conversation import worker
+      const importWorker = new ImportWorker();
+      this.workers.set('import', importWorker);
+
+      // Initialize SMS delivery worker
+      const smsWorker = new SmsWorker();
+      this.workers.set('sms', smsWorker);
+
+      // Initialize email delivery worker
+      const emailWorker = new EmailWorker();
+      this.workers.set('email', emailWorker);
+
+      // Initialize Stripe webhook event worker
+      const webhookWorker = new WebhookWorker();
+      this.workers.set('webhook', webhookWorker);
+
+      // Initialize subscription maintenance worker
+      const subscriptionWorker = new SubscriptionWorker();
+      this.workers.set('subscription', subscriptionWorker);
 
       this.logger.info('All workers initialized successfully');
     } catch (error) {